@@ -18,6 +18,11 @@ import { NoShowDefender } from '../services/noShowDefender';
 import { EmergencyTriage } from '../services/emergencyTriage';
 import { HIPAAShield } from '../services/hipaaShield';
 import { RecallAutomator } from '../services/recallAutomator';
+import { OutboundQueue, DeadLetterMessage } from '../services/outboundQueue';
+import { SlotOfferCascade, SlotOffer } from '../services/slotOffers';
+import { RecallCadence, RecallLetter } from '../services/recallCadence';
+import { NoShowPredictor, AppointmentRisk } from '../services/noShowRisk';
+import { BackgroundServices, BackgroundRole } from '../services/backgroundServices';
 import { useAirtable } from '../hooks/useAirtable';
 
 interface MetricProps {
@@ -60,7 +65,7 @@ export const ClinicDashboard: React.FC = () => {
 
   const [dashboardData, setDashboardData] = useState({
     revenueRecovery: 8400,
-    noShowRate: 7,
+    noShowRate: 0,
     emergencyCapture: 92,
     waitlistStats: { total: 0, byPriority: {}, averageWaitTime: 0 },
     recallStats: { totalDue: 0, potentialRevenue: 0, contactSuccessRate: 0 },
@@ -73,6 +78,79 @@ export const ClinicDashboard: React.FC = () => {
     }
   });
 
+  // Reminders, the SMS outbox, offer holds and recall cadences run from one staff dashboard tab only
+  const [backgroundRole, setBackgroundRole] = useState<BackgroundRole>(BackgroundServices.getRole());
+
+  useEffect(() => {
+    const unsubscribe = BackgroundServices.subscribe(() => setBackgroundRole(BackgroundServices.getRole()));
+    BackgroundServices.start();
+    return () => {
+      unsubscribe();
+      BackgroundServices.stop();
+    };
+  }, []);
+
+  const [messageQueue, setMessageQueue] = useState<{ pending: number; deadLetters: DeadLetterMessage[] }>({
+    pending: 0,
+    deadLetters: []
+  });
+
+  // Outbound SMS queue - refreshes whenever the queue drains or a dead letter is handled
+  useEffect(() => {
+    const refreshQueue = () => setMessageQueue({
+      pending: OutboundQueue.getStats().pending,
+      deadLetters: OutboundQueue.getDeadLetters()
+    });
+
+    refreshQueue();
+    return OutboundQueue.subscribe(refreshQueue);
+  }, []);
+
+  // Waitlist offer cascades - each step is kept so staff can see why a slot went unfilled
+  const [slotOffers, setSlotOffers] = useState<SlotOffer[]>([]);
+
+  useEffect(() => {
+    const refreshOffers = () => setSlotOffers(SlotOfferCascade.getOffers().slice(0, 5));
+
+    refreshOffers();
+    return SlotOfferCascade.subscribe(refreshOffers);
+  }, []);
+
+  // Certified recall letters waiting for the front desk to print and mail
+  const [recallLetters, setRecallLetters] = useState<RecallLetter[]>([]);
+
+  useEffect(() => {
+    const refreshLetters = () => {
+      RecallCadence.getLettersToPrint()
+        .then(setRecallLetters)
+        .catch(error => console.error('Failed to load recall letters:', error));
+    };
+
+    refreshLetters();
+    return RecallCadence.subscribe(refreshLetters);
+  }, []);
+
+  const handlePrintLetter = (letter: RecallLetter) => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      console.error('Could not open a window to print the recall letter');
+      return;
+    }
+    printWindow.document.write(RecallCadence.toPrintableHtml(letter));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleLetterMailed = (letter: RecallLetter) => {
+    RecallCadence.markMailed(letter.recallId).catch(error => console.error('Failed to mark recall letter mailed:', error));
+  };
+
+  const handleRetryMessage = (id: string) => {
+    OutboundQueue.retryDeadLetter(id);
+    OutboundQueue.drain().catch(error => console.error('Failed to retry message:', error));
+  };
+
   const [recentActivity, setRecentActivity] = useState<Array<{
     id: string;
     type: 'cancellation' | 'emergency' | 'recall' | 'compliance';
@@ -81,11 +159,15 @@ export const ClinicDashboard: React.FC = () => {
     status: 'success' | 'warning' | 'error';
   }>>([]);
 
+  // Upcoming appointments the no-show model flags, riskiest first
+  const [noShowRisks, setNoShowRisks] = useState<AppointmentRisk[]>([]);
+
   useEffect(() => {
     // Real-time data updates with Airtable integration
     const updateDashboard = async () => {
-      const waitlistStats = NoShowDefender.getWaitlistStats();
-      const recallStats = RecallAutomator.getRecallStats();
+      let waitlistStats = { total: 0, byPriority: {} as Record<string, number>, averageWaitTime: 0 };
+      let noShowRate = 0;
+      let recallStats = { totalDue: 0, potentialRevenue: 0, contactSuccessRate: 0 };
       const hipaaStats = HIPAAShield.getAuditSummary();
 
       let airtableStats = {
@@ -110,12 +192,32 @@ export const ClinicDashboard: React.FC = () => {
         } catch (error) {
           console.error('Failed to get Airtable stats:', error);
         }
+
+        try {
+          waitlistStats = await NoShowDefender.getWaitlistStats();
+        } catch (error) {
+          console.error('Failed to get waitlist stats:', error);
+        }
+
+        try {
+          recallStats = await RecallAutomator.getRecallStats();
+        } catch (error) {
+          console.error('Failed to get recall stats:', error);
+        }
+
+        try {
+          const model = await NoShowPredictor.getModel();
+          noShowRate = Math.round(model.baseRate * 1000) / 10;
+          setNoShowRisks(await NoShowPredictor.getUpcomingRisks(7));
+        } catch (error) {
+          console.error('Failed to score no-show risk:', error);
+        }
       }
 
       setDashboardData(prev => ({
         ...prev,
         revenueRecovery: 8400 + Math.floor(Math.random() * 1000),
-        noShowRate: 7 + Math.floor(Math.random() * 3),
+        noShowRate,
         emergencyCapture: 92 + Math.floor(Math.random() * 5),
         waitlistStats,
         recallStats,
@@ -166,31 +268,58 @@ export const ClinicDashboard: React.FC = () => {
     return () => clearInterval(interval);
   }, [isConnected, getAppointmentStats]);
 
-  const handleSimulateCancellation = () => {
-    NoShowDefender.simulateCancellation();
-    
-    // Add to recent activity
-    const newActivity = {
-      id: Date.now().toString(),
-      type: 'cancellation' as const,
-      message: `Simulated cancellation - checking waitlist for replacement`,
-      timestamp: new Date(),
-      status: 'success' as const
-    };
-    
+  // Dry run - shows who would be offered a real open slot; nobody is texted
+  const handleSimulateCancellation = async () => {
+    let newActivity;
+    try {
+      const { slot, candidates } = await NoShowDefender.simulateCancellation();
+      const names = candidates.slice(0, 3).map(entry => entry.patientName).join(', then ');
+      newActivity = {
+        id: Date.now().toString(),
+        type: 'cancellation' as const,
+        message: !slot
+          ? 'Simulated cancellation (dry run) - no open slot tomorrow to simulate with'
+          : candidates.length > 0
+            ? `Simulated cancellation (dry run) - ${slot.date} ${slot.time} ${slot.procedure} would be offered to ${names}${candidates.length > 3 ? ` and ${candidates.length - 3} more` : ''}`
+            : `Simulated cancellation (dry run) - ${slot.date} ${slot.time} ${slot.procedure}: no waitlist patient matches`,
+        timestamp: new Date(),
+        status: candidates.length > 0 ? 'success' as const : 'warning' as const
+      };
+    } catch (error) {
+      console.error('Simulated cancellation failed:', error);
+      newActivity = {
+        id: Date.now().toString(),
+        type: 'cancellation' as const,
+        message: `Simulated cancellation failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        timestamp: new Date(),
+        status: 'error' as const
+      };
+    }
+
     setRecentActivity(prev => [newActivity, ...prev.slice(0, 9)]);
   };
 
   const handleRecallCampaign = async () => {
-    const results = await RecallAutomator.processRecallCampaign();
-    
-    const newActivity = {
-      id: Date.now().toString(),
-      type: 'recall' as const,
-      message: `Recall campaign: ${results.contacted} contacted, ${results.scheduled} scheduled - $${results.potentialRevenue.toLocaleString()} potential revenue`,
-      timestamp: new Date(),
-      status: 'success' as const
-    };
+    let newActivity;
+    try {
+      const results = await RecallAutomator.processRecallCampaign();
+      newActivity = {
+        id: Date.now().toString(),
+        type: 'recall' as const,
+        message: `Recall campaign: ${results.contacted} contacted, ${results.scheduled} scheduled - $${results.potentialRevenue.toLocaleString()} potential revenue`,
+        timestamp: new Date(),
+        status: 'success' as const
+      };
+    } catch (error) {
+      console.error('Recall campaign failed:', error);
+      newActivity = {
+        id: Date.now().toString(),
+        type: 'recall' as const,
+        message: 'Recall campaign could not load recalls from Airtable',
+        timestamp: new Date(),
+        status: 'error' as const
+      };
+    }
     
     setRecentActivity(prev => [newActivity, ...prev.slice(0, 9)]);
   };
@@ -228,6 +357,19 @@ export const ClinicDashboard: React.FC = () => {
                 )}
               </div>
               
+              <div className={`px-4 py-2 rounded-full text-sm font-medium ${
+                backgroundRole === 'leader'
+                  ? 'bg-green-100 text-green-700'
+                  : backgroundRole === 'waiting'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'bg-red-100 text-red-700'
+              }`}>
+                {backgroundRole === 'leader' && 'Background jobs running in this tab'}
+                {backgroundRole === 'waiting' && 'Background jobs running in another dashboard tab'}
+                {backgroundRole === 'unsupported' && 'Background jobs unavailable in this browser'}
+                {backgroundRole === 'stopped' && 'Background jobs stopped'}
+              </div>
+
               {isLoading && (
                 <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
               )}
@@ -398,6 +540,168 @@ export const ClinicDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Failed Messages (dead letters) */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-800">Failed Messages</h3>
+            <span className="text-sm text-gray-600">
+              {messageQueue.pending} pending · {messageQueue.deadLetters.length} failed
+            </span>
+          </div>
+
+          {messageQueue.deadLetters.length === 0 ? (
+            <p className="text-sm text-gray-500">All outbound messages have been delivered or are retrying.</p>
+          ) : (
+            <div className="space-y-3">
+              {messageQueue.deadLetters.map((message) => (
+                <div key={message.id} className="flex items-start gap-3 p-3 rounded-lg bg-red-50">
+                  <XCircle className="w-5 h-5 text-red-500 mt-0.5" />
+
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800 truncate">{message.body}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {message.type} to {message.to} - {message.reason} after {message.attempts} attempt(s)
+                    </p>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleRetryMessage(message.id)}
+                      className="px-3 py-1 rounded-lg bg-[#89CFF0] text-white text-xs font-medium hover:bg-[#89CFF0]/90 transition-colors"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => OutboundQueue.discardDeadLetter(message.id)}
+                      className="px-3 py-1 rounded-lg bg-gray-200 text-gray-700 text-xs font-medium hover:bg-gray-300 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* No-Show Risk */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-800">No-Show Risk (next 7 days)</h3>
+            <span className="text-sm text-gray-600">
+              Historical no-show rate {dashboardData.noShowRate}%
+            </span>
+          </div>
+
+          {noShowRisks.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {isConnected ? 'No upcoming appointments are above average risk.' : 'Connect Airtable to score upcoming appointments.'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {noShowRisks.slice(0, 8).map((risk) => (
+                <div key={risk.appointment.id} className="flex items-start gap-3 p-3 rounded-lg bg-gray-50">
+                  <AlertTriangle className={`w-5 h-5 mt-0.5 ${risk.level === 'high' ? 'text-red-500' : 'text-yellow-500'}`} />
+
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-800">
+                      {risk.appointment.patientName} - {risk.appointment.appointmentDate} {risk.appointment.appointmentTime} {risk.appointment.procedure}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">{risk.factors.join(' · ') || 'Several small factors combined'}</p>
+                  </div>
+
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    risk.level === 'high' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                  }`}>
+                    {Math.round(risk.score * 100)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Slot Offers */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-800">Slot Offers</h3>
+            <span className="text-sm text-gray-600">
+              {slotOffers.filter(offer => offer.status === 'offering').length} on hold
+            </span>
+          </div>
+
+          {slotOffers.length === 0 ? (
+            <p className="text-sm text-gray-500">No freed slots have been offered to the waitlist yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {slotOffers.map((offer) => (
+                <div key={offer.id} className="p-3 rounded-lg bg-gray-50">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-800">
+                      {offer.slot.date} {offer.slot.time} - {offer.slot.procedure} with {offer.slot.provider}
+                    </p>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                      offer.status === 'booked' ? 'bg-green-100 text-green-700' :
+                      offer.status === 'offering' ? 'bg-blue-100 text-blue-700' :
+                      'bg-yellow-100 text-yellow-700'
+                    }`}>
+                      {offer.status}
+                    </span>
+                  </div>
+                  <ul className="mt-2 space-y-1">
+                    {offer.steps.map((step, index) => (
+                      <li key={index} className="text-xs text-gray-500">
+                        {new Date(step.at).toLocaleTimeString()} - {step.event}
+                        {step.patientName ? ` ${step.patientName}` : ''}
+                        {step.detail ? `: ${step.detail}` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Recall Letters */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-800">Recall Letters</h3>
+            <span className="text-sm text-gray-600">{recallLetters.length} to print</span>
+          </div>
+
+          {recallLetters.length === 0 ? (
+            <p className="text-sm text-gray-500">No certified recall letters are waiting to be mailed.</p>
+          ) : (
+            <div className="space-y-3">
+              {recallLetters.map((letter) => (
+                <div key={letter.recallId} className="flex items-center justify-between p-3 rounded-lg bg-gray-50">
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">{letter.patientName} - {letter.procedure}</p>
+                    <p className={`text-xs ${letter.mailingAddress ? 'text-gray-500' : 'text-red-600'}`}>
+                      {letter.mailingAddress ? letter.mailingAddress.split('\n')[0] : 'No mailing address on file'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handlePrintLetter(letter)}
+                      className="px-3 py-1 rounded-lg bg-[#89CFF0] text-white text-xs font-medium hover:bg-[#89CFF0]/90 transition-colors"
+                    >
+                      Print
+                    </button>
+                    <button
+                      onClick={() => handleLetterMailed(letter)}
+                      className="px-3 py-1 rounded-lg bg-gray-200 text-gray-700 text-xs font-medium hover:bg-gray-300 transition-colors"
+                    >
+                      Mark mailed
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Recent Activity */}
         <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
           <h3 className="text-lg font-semibold text-gray-800 mb-4">Recent Activity</h3>
@@ -9,6 +9,7 @@ export const procedureConfig = {
   },
   emergency: { 
     priority: 'high', 
+    providers: ['dentist'],
     keywords: ['pain', 'broken', 'urgent', 'swollen', 'bleeding', 'hurt', 'ache'],
     duration: 60,
     cost: 200,
@@ -17,6 +18,7 @@ export const procedureConfig = {
   surgery: { 
     duration: 120, 
     requires: ['xray'], 
+    providers: ['oral_surgeon'],
     cost: 800,
     description: 'Oral surgery procedures',
     keywords: ['surgery', 'extraction', 'implant', 'oral surgery']
@@ -58,27 +60,74 @@ export const verificationFlow = {
   hipaaCompliant: true,
   maxAttempts: 3,
   timeoutMinutes: 5,
+  maxSmsCodes: 2, // fallback codes per patient per timeoutMinutes window
   encryptionRequired: true,
   auditLog: true,
   biometricSupport: false // Future enhancement
 } as const;
 
+// RECALL CATALOG - the only place recall intervals (months), reminder cadence and priority are set.
+// procedures: the procedureConfig types whose completed visit starts this recall; implant visits are
+// booked as surgery and matched by name
+export const recallCatalog = {
+  cleaning: {
+    interval: 6,
+    autoBook: true,
+    reminderDays: [30, 14, 7, 1],
+    priority: 'medium',
+    procedures: ['cleaning']
+  },
+  checkup: {
+    interval: 12,
+    autoBook: true,
+    reminderDays: [30, 14, 7],
+    priority: 'medium',
+    procedures: ['consultation']
+  },
+  periodontal: {
+    interval: 3,
+    autoBook: true,
+    reminderDays: [14, 7, 3, 1],
+    priority: 'high',
+    procedures: ['periodontal']
+  },
+  crown: {
+    interval: 12,
+    autoBook: false,
+    reminderDays: [60, 30, 14],
+    priority: 'low',
+    procedures: ['crown']
+  },
+  implant: {
+    interval: 12,
+    autoBook: true,
+    reminderDays: [90, 60, 30, 14],
+    priority: 'high',
+    procedures: []
+  },
+  filling: {
+    interval: 24,
+    autoBook: false,
+    reminderDays: [60, 30, 14],
+    priority: 'low',
+    procedures: ['filling']
+  },
+  extraction: {
+    interval: 1,
+    autoBook: true,
+    reminderDays: [7, 3, 1],
+    priority: 'high',
+    procedures: ['surgery'] // post-op check
+  }
+} as const;
+
 // RECALL SYSTEM with enhanced automation
 export const recallSettings = {
-  intervals: { 
-    cleaning: 6, 
-    perio: 3, 
-    implant: 12,
-    crown: 12,
-    filling: 24,
-    surgery: 1,
-    consultation: 12,
-    periodontal: 3
-  },
+  noRecallProcedures: ['emergency'], // follow-up is decided at the visit
   autoBook: true,
-  reminderDays: [30, 14, 7, 1],
   methods: ['sms', 'email', 'call'],
-  maxAttempts: 5,
+  maxAttempts: 5, // routine reminders per recall; the escalationRules steps run regardless
+  completionLookbackDays: 14, // completed visits this recent open their next recall if it was missed
   escalationRules: {
     overdue30Days: 'call',
     overdue60Days: 'priority_call',
@@ -88,7 +137,7 @@ export const recallSettings = {
 
 // EMERGENCY TRIAGE PROTOCOL with enhanced keywords
 export const emergencyKeywords = [
-  'pain', 'emergency', 'broken', 'swollen', 'bleeding', 
+  'pain', 'toothache', 'emergency', 'broken', 'swollen', 'bleeding', 
   'urgent', 'hurt', 'ache', 'throbbing', 'severe',
   'unbearable', 'excruciating', 'can\'t sleep', 'can\'t eat',
   'knocked out', 'chipped', 'cracked', 'loose tooth',
@@ -97,11 +146,49 @@ export const emergencyKeywords = [
 
 // PAIN LEVEL ASSESSMENT
 export const painLevelKeywords = {
-  severe: ['unbearable', 'excruciating', 'worst', 'can\'t', 'crying', '10/10', 'screaming'],
+  severe: ['unbearable', 'excruciating', 'worst', 'can\'t sleep', 'can\'t take it', 'crying', '10/10', 'screaming'],
   moderate: ['bad', 'hurts', 'painful', 'aching', 'throbbing', 'uncomfortable', '6/10', '7/10'],
   mild: ['slight', 'little', 'minor', 'uncomfortable', 'tender', '3/10', '4/10']
 } as const;
 
+// TRIAGE SCORING - shared by every emergency entry point
+export const triageConfig = {
+  painScores: { severe: 9, moderate: 6, mild: 3 },
+  defaultPainLevel: 5,
+  scoring: {
+    keywordWeight: 15, // per matched emergency keyword
+    painWeight: 8, // per point of pain (1-10)
+    prolongedSymptomBoost: 20
+  },
+  urgencyThresholds: { high: 80, medium: 50 }, // urgency score above which a level applies
+  highUrgencyKeywords: ['unbearable', 'excruciating', 'severe', 'can\'t sleep', 'bleeding'],
+  prolongedSymptomPhrases: ['since last night', 'all night', 'for days', 'for a week'],
+  recommendedWaitHours: { critical: 0, high: 2, medium: 6, low: 24 }, // critical means emergency room now
+  bookingLeadHours: { critical: 0, high: 0, medium: 2, low: 24 }, // earliest slot searched per urgency
+  fuzzyMatchThreshold: 0.85,
+  redFlagConditions: {
+    spreading_swelling: ['swelling in my eye', 'swollen eye', 'eye is swollen', 'up to my eye', 'eye swelling shut', 'swelling down my neck', 'down to my neck', 'neck is swollen', 'swollen neck', 'neck swelling'],
+    airway_compromise: ['can\'t breathe', 'trouble breathing', 'difficulty breathing', 'hard to breathe', 'can\'t swallow', 'trouble swallowing', 'difficulty swallowing'],
+    uncontrolled_bleeding: ['won\'t stop bleeding', 'bleeding won\'t stop', 'can\'t stop the bleeding', 'bleeding for hours', 'been bleeding all day', 'soaked through the gauze'],
+    head_injury: ['hit my head', 'hit his head', 'hit her head', 'head injury', 'knocked unconscious', 'knocked out cold', 'passed out', 'concussion']
+  }
+} as const;
+
+// RED-FLAG ESCALATION - these callers are sent to the ER, never into the booking flow
+export const escalationConfig = {
+  conditionLabels: {
+    spreading_swelling: 'Facial swelling spreading to the eye or neck',
+    airway_compromise: 'Difficulty breathing or swallowing',
+    uncontrolled_bleeding: 'Uncontrolled bleeding',
+    head_injury: 'Dental trauma with head injury'
+  },
+  callerInstruction: 'This could be life-threatening. Hang up and call 911 now, or go to the nearest emergency room. Do not wait for a dental appointment.',
+  onCallStaff: [
+    { name: 'On-call dentist', phone: '555-123-3368' },
+    { name: 'Clinic manager', phone: '555-123-0100' }
+  ]
+} as const;
+
 // HIPAA COMPLIANCE SETTINGS with enhanced security
 export const hipaaConfig = {
   redactionRules: [
@@ -138,12 +225,97 @@ export const businessConfig = {
     saturday: { open: '09:00', close: '14:00' },
     sunday: { open: null, close: null } // Closed
   },
+  clinicName: 'Elite Dental',
+  phone: '(555) 123-DENTAL',
   emergencyHours: '24/7',
   timeZone: 'America/New_York',
   appointmentSlots: 15, // minutes
-  bufferTime: 10 // minutes between appointments
+  bufferTime: 10, // minutes between appointments
+  lunchStart: '12:00' // length set by appointmentConfig.bufferRules.lunchBreak
 } as const;
 
+// PROVIDER ROSTER - roles must match procedureConfig providers
+export const providerRoster = [
+  {
+    id: 'dr-morales',
+    name: 'Dr. Elena Morales',
+    role: 'dentist',
+    hours: {
+      monday: { open: '08:00', close: '18:00' },
+      tuesday: { open: '08:00', close: '18:00' },
+      wednesday: { open: '08:00', close: '18:00' },
+      thursday: { open: '08:00', close: '18:00' },
+      friday: { open: '08:00', close: '17:00' }
+    },
+    chairs: ['op-1', 'op-2'],
+    timeOff: []
+  },
+  {
+    id: 'dr-okafor',
+    name: 'Dr. James Okafor',
+    role: 'dentist',
+    hours: {
+      tuesday: { open: '10:00', close: '18:00' },
+      wednesday: { open: '10:00', close: '18:00' },
+      thursday: { open: '10:00', close: '18:00' },
+      friday: { open: '08:00', close: '17:00' },
+      saturday: { open: '09:00', close: '14:00' }
+    },
+    chairs: ['op-3'],
+    timeOff: []
+  },
+  {
+    id: 'dr-shah',
+    name: 'Dr. Priya Shah',
+    role: 'periodontist',
+    hours: {
+      monday: { open: '08:00', close: '16:00' },
+      wednesday: { open: '08:00', close: '16:00' },
+      thursday: { open: '08:00', close: '16:00' }
+    },
+    chairs: ['op-4'],
+    timeOff: []
+  },
+  {
+    id: 'dr-lee',
+    name: 'Dr. Marcus Lee',
+    role: 'oral_surgeon',
+    hours: {
+      tuesday: { open: '08:00', close: '18:00' },
+      thursday: { open: '08:00', close: '18:00' }
+    },
+    chairs: ['surgery-1'],
+    timeOff: []
+  },
+  {
+    id: 'hyg-brooks',
+    name: 'Hannah Brooks, RDH',
+    role: 'hygienist',
+    hours: {
+      monday: { open: '08:00', close: '18:00' },
+      tuesday: { open: '08:00', close: '18:00' },
+      wednesday: { open: '08:00', close: '18:00' },
+      thursday: { open: '08:00', close: '18:00' },
+      friday: { open: '08:00', close: '17:00' }
+    },
+    chairs: ['hyg-1'],
+    timeOff: []
+  },
+  {
+    id: 'hyg-nguyen',
+    name: 'Tyler Nguyen, RDH',
+    role: 'hygienist',
+    hours: {
+      monday: { open: '08:00', close: '18:00' },
+      wednesday: { open: '08:00', close: '18:00' },
+      friday: { open: '08:00', close: '17:00' },
+      saturday: { open: '09:00', close: '14:00' }
+    },
+    chairs: ['hyg-2'],
+    timeOff: []
+  }
+] as const;
+
 // INSURANCE VERIFICATION
 export const insuranceConfig = {
   supportedProviders: [
@@ -179,6 +351,26 @@ export const appointmentConfig = {
   }
 } as const;
 
+// NO-SHOW RISK - learned from past appointment outcomes, used to add reminders for likely no-shows
+export const noShowRiskConfig = {
+  historyDays: 365,
+  minHistory: 20, // attended + missed visits needed before the clinic's own rate replaces defaultRate
+  defaultRate: 0.08,
+  smoothing: 10, // visits at the clinic-wide rate blended into every bucket so thin buckets stay near average
+  patientSmoothing: 3, // same idea for a patient's own record
+  cancellationWeight: 0.5, // a patient's cancellations count as half a missed visit
+  leadTimeDays: [2, 7, 21, 60], // bucket edges for days between booking and visit
+  timeBands: { morning: '12:00', afternoon: '16:00' }, // starts before these times; later is "late"
+  thresholds: { high: 0.25, medium: 0.12 },
+  factorLift: 1.25, // a feature is listed as a reason when its miss odds are this much above average
+  cacheMinutes: 60,
+  // Sent on top of the standard reminders when an appointment scores high
+  extraTouchpoints: [
+    { key: 'sms-72h', channel: 'sms', leadHours: 72 },
+    { key: 'voice-18h', channel: 'voice', leadHours: 18 }
+  ]
+} as const;
+
 // COMMUNICATION PREFERENCES
 export const communicationConfig = {
   channels: {
@@ -187,12 +379,196 @@ export const communicationConfig = {
     voice: { enabled: true, priority: 3, costPerMessage: 0.15 },
     push: { enabled: false, priority: 4, costPerMessage: 0 }
   },
+  // SMS and spoken message bodies by language - every language of a template must use the same placeholders.
+  // {clinicName} and {phone} are filled from businessConfig; Date values render in businessConfig.timeZone.
   templates: {
-    appointment_confirmation: 'Your appointment with {clinicName} is confirmed for {date} at {time}.',
-    appointment_reminder: 'Reminder: You have an appointment tomorrow at {time} with {clinicName}.',
-    emergency_response: 'Emergency appointment scheduled. Please arrive at {time}. Call {phone} if needed.',
-    recall_notice: 'It\'s time for your {procedure} appointment. Call {phone} to schedule.',
-    cancellation_notice: 'Your appointment on {date} has been cancelled. Please call to reschedule.'
+    appointment_confirmation: {
+      en: 'Your appointment with {clinicName} is confirmed for {date} at {time}.',
+      es: 'Su cita con {clinicName} está confirmada para el {date} a las {time}.',
+      fr: 'Votre rendez-vous chez {clinicName} est confirmé le {date} à {time}.'
+    },
+    appointment_reminder: {
+      en: 'Reminder: you have an appointment with {clinicName} on {date} at {time}. Reply CONFIRM to confirm or RESCHEDULE to change it.',
+      es: 'Recordatorio: tiene una cita con {clinicName} el {date} a las {time}. Responda CONFIRM para confirmar o RESCHEDULE para cambiarla.',
+      fr: 'Rappel : vous avez rendez-vous chez {clinicName} le {date} à {time}. Répondez CONFIRM pour confirmer ou RESCHEDULE pour le changer.'
+    },
+    appointment_reminder_soon: {
+      en: '{clinicName}: see you today at {time} with {provider}. Running late? Call {phone}.',
+      es: '{clinicName}: le esperamos hoy a las {time} con {provider}. ¿Llegará tarde? Llame al {phone}.',
+      fr: '{clinicName} : à tout à l\'heure, {time} avec {provider}. En retard ? Appelez le {phone}.'
+    },
+    emergency_response: {
+      en: 'Emergency appointment scheduled for {date}. Please arrive at {time}. {instructions} Call {phone} if needed.',
+      es: 'Cita de emergencia: {date} a las {time}. {instructions} Llame al {phone} si lo necesita.',
+      fr: 'Rendez-vous d\'urgence prévu le {date}. Merci d\'arriver à {time}. {instructions} Appelez le {phone} si besoin.'
+    },
+    emergency_moved_up: {
+      en: '{clinicName}: your emergency visit has been moved up to {date} at {time} with {provider}.',
+      es: '{clinicName}: su visita de emergencia se adelantó al {date} a las {time} con {provider}.',
+      fr: '{clinicName} : votre visite d\'urgence est avancée au {date} à {time} avec {provider}.'
+    },
+    care_severe_pain: {
+      en: 'Take 600mg ibuprofen + 500mg acetaminophen and apply a cold compress 15 min on, 15 min off.',
+      es: 'Tome 600 mg de ibuprofeno + 500 mg de paracetamol y aplique compresas frías 15 min sí, 15 min no.',
+      fr: 'Prenez 600 mg d\'ibuprofène + 500 mg de paracétamol et appliquez du froid 15 min, puis 15 min de pause.'
+    },
+    care_moderate_pain: {
+      en: 'Take 400mg ibuprofen every 6 hours and rinse with warm salt water.',
+      es: 'Tome 400 mg de ibuprofeno cada 6 horas y enjuague con agua tibia con sal.',
+      fr: 'Prenez 400 mg d\'ibuprofène toutes les 6 heures et rincez à l\'eau tiède salée.'
+    },
+    care_swelling: {
+      en: 'Keep your head elevated and use an ice pack, not heat, on the swelling.',
+      es: 'Mantenga la cabeza elevada y use hielo, no calor, sobre la hinchazón.',
+      fr: 'Gardez la tête surélevée et appliquez de la glace, pas de chaleur, sur le gonflement.'
+    },
+    care_bleeding: {
+      en: 'Apply gentle pressure with clean gauze and avoid spitting or rinsing hard. If bleeding has not stopped in 30 minutes, call us.',
+      es: 'Presione con una gasa limpia y no escupa ni se enjuague con fuerza. Si sangra más de 30 minutos, llámenos.',
+      fr: 'Appuyez doucement avec une compresse propre et évitez de cracher ou de rincer fort. Si le saignement ne s\'arrête pas en 30 minutes, appelez-nous.'
+    },
+    care_general: {
+      en: 'Avoid chewing on that side.',
+      es: 'Evite masticar de ese lado.',
+      fr: 'Évitez de mâcher de ce côté.'
+    },
+    red_flag_patient: {
+      en: '{clinicName}: based on your symptoms, please call 911 or go to the nearest emergency room now. Our on-call dentist has been alerted and will follow up.',
+      es: '{clinicName}: según sus síntomas, llame al 911 o vaya a la sala de emergencias más cercana ahora. Nuestro dentista de guardia fue alertado y le dará seguimiento.',
+      fr: '{clinicName} : vu vos symptômes, appelez le 911 ou rendez-vous aux urgences les plus proches maintenant. Notre dentiste de garde a été prévenu et vous recontactera.'
+    },
+    on_call_page: {
+      en: '{clinicName} RED FLAG: {conditions}. {caller}. Caller told to call 911 / go to the ER.'
+    },
+    verification_code: {
+      en: '{clinicName} verification code: {code}. It expires in {minutes} minutes. Never share this code.',
+      es: 'Código de verificación de {clinicName}: {code}. Vence en {minutes} minutos. No comparta este código.',
+      fr: 'Code de vérification {clinicName} : {code}. Il expire dans {minutes} minutes. Ne partagez jamais ce code.'
+    },
+    waitlist_offer: {
+      en: 'Hi {name}! A {procedure} opening on {date} at {time} just came up at {clinicName}. We are holding it for you for {minutes} min - reply CONFIRM to book it or NO to pass.',
+      es: '¡Hola {name}! Se liberó un horario para {procedure} el {date} a las {time} en {clinicName}. Se lo guardamos {minutes} min: responda CONFIRM para reservarlo o NO para dejarlo pasar.',
+      fr: 'Bonjour {name} ! Un créneau pour {procedure} le {date} à {time} vient de se libérer chez {clinicName}. Nous vous le gardons {minutes} min : répondez CONFIRM pour le réserver ou NON pour passer.'
+    },
+    recall_notice: {
+      en: 'Hi {name}, it\'s time for your {procedure} appointment with {clinicName}. Call {phone} to schedule.',
+      es: 'Hola {name}, es momento de su cita de {procedure} con {clinicName}. Llame al {phone} para programarla.',
+      fr: 'Bonjour {name}, il est temps de prendre rendez-vous pour votre {procedure} chez {clinicName}. Appelez le {phone}.'
+    },
+    recall_overdue: {
+      en: 'Hi {name}, your {procedure} care with {clinicName} is overdue and delaying it can lead to complications. Call {phone} or reply with a day and time that works.',
+      es: 'Hola {name}, su atención de {procedure} con {clinicName} está atrasada y retrasarla puede causar complicaciones. Llame al {phone} o responda con un día y hora.',
+      fr: 'Bonjour {name}, vos soins de {procedure} chez {clinicName} sont en retard, ce qui peut entraîner des complications. Appelez le {phone} ou répondez avec un jour et une heure.'
+    },
+    cancellation_notice: {
+      en: 'Your appointment on {date} has been cancelled. Please call to reschedule.',
+      es: 'Su cita del {date} ha sido cancelada. Llame para reprogramarla.',
+      fr: 'Votre rendez-vous du {date} a été annulé. Appelez-nous pour le reprogrammer.'
+    },
+    voice_reminder_greeting: {
+      en: 'Hi {name}, this is {clinicName} calling about your {procedure} appointment on {date} at {time}. Will you be able to make it?',
+      es: 'Hola {name}, le llamamos de {clinicName} por su cita de {procedure} el {date} a las {time}. ¿Podrá asistir?',
+      fr: 'Bonjour {name}, ici {clinicName} au sujet de votre rendez-vous {procedure} le {date} à {time}. Pourrez-vous venir ?'
+    },
+    voice_reminder_voicemail: {
+      en: 'Hi {name}, this is {clinicName} reminding you of your appointment on {date} at {time}. To confirm or reschedule, reply to our text or call {phone}. Thank you!',
+      es: 'Hola {name}, le recordamos de {clinicName} su cita del {date} a las {time}. Para confirmar o cambiarla, responda a nuestro mensaje o llame al {phone}. ¡Gracias!',
+      fr: 'Bonjour {name}, ici {clinicName} pour vous rappeler votre rendez-vous du {date} à {time}. Pour confirmer ou le déplacer, répondez à notre texto ou appelez le {phone}. Merci !'
+    },
+    voice_recall_greeting: {
+      en: 'Hi {name}, this is {clinicName}. You are due for your {procedure} visit. Would you like to book a time now?',
+      es: 'Hola {name}, le llamamos de {clinicName}. Ya le corresponde su visita de {procedure}. ¿Desea reservar una hora ahora?',
+      fr: 'Bonjour {name}, ici {clinicName}. Votre visite {procedure} est à prévoir. Voulez-vous réserver un créneau maintenant ?'
+    },
+    voice_recall_voicemail: {
+      en: 'Hi {name}, this is {clinicName}. You are due for your {procedure} visit. Please call {phone} or reply to our text with a day and time that works. Thank you!',
+      es: 'Hola {name}, le llamamos de {clinicName}. Ya le corresponde su visita de {procedure}. Llame al {phone} o responda a nuestro mensaje con un día y hora. ¡Gracias!',
+      fr: 'Bonjour {name}, ici {clinicName}. Votre visite {procedure} est à prévoir. Appelez le {phone} ou répondez à notre texto avec un jour et une heure. Merci !'
+    },
+    // Printed for the certified-mail recall step, not texted
+    recall_letter: {
+      en: 'Dear {name},\n\nOur records show that your {procedure} visit was due on {date}. We have tried to reach you by text and phone without success. Delaying this care can allow problems to progress that are harder and more costly to treat.\n\nPlease call us at {phone} to book a visit at a time that suits you. If you have moved to another dental office, let us know and we will update our records.\n\nSincerely,\n{clinicName}',
+      es: 'Estimado/a {name}:\n\nNuestros registros indican que su visita de {procedure} correspondía el {date}. Hemos intentado comunicarnos con usted por mensaje y por teléfono sin éxito. Retrasar esta atención puede permitir que los problemas avancen y sean más difíciles y costosos de tratar.\n\nLlámenos al {phone} para reservar una visita a la hora que le convenga. Si ahora acude a otro consultorio dental, avísenos y actualizaremos nuestros registros.\n\nAtentamente,\n{clinicName}',
+      fr: 'Bonjour {name},\n\nSelon nos dossiers, votre visite {procedure} était prévue le {date}. Nous avons tenté de vous joindre par texto et par téléphone, sans succès. Retarder ces soins peut laisser des problèmes s\'aggraver et les rendre plus difficiles et coûteux à traiter.\n\nAppelez-nous au {phone} pour réserver une visite au moment qui vous convient. Si vous êtes maintenant suivi dans une autre clinique dentaire, dites-le-nous et nous mettrons nos dossiers à jour.\n\nCordialement,\n{clinicName}'
+    },
+    appointment_booked: {
+      en: '{clinicName}: your {procedure} visit is booked for {date} at {time} with {provider}. Reply CANCEL to cancel or RESCHEDULE to change it.',
+      es: '{clinicName}: su visita de {procedure} quedó para el {date} a las {time} con {provider}. Responda CANCEL para cancelar o RESCHEDULE para cambiarla.',
+      fr: '{clinicName} : votre visite {procedure} est prévue le {date} à {time} avec {provider}. Répondez CANCEL pour annuler ou RESCHEDULE pour la changer.'
+    },
+    reschedule_prompt: {
+      en: '{clinicName}: reply with a day and time that works for you, e.g. "Tuesday 2pm", and we will find the closest opening. Or call {phone}.',
+      es: '{clinicName}: responda con un día y hora que le convengan, p. ej. "Tuesday 2pm", y buscaremos el horario más cercano. O llame al {phone}.',
+      fr: '{clinicName} : répondez avec un jour et une heure qui vous conviennent, p. ex. "Tuesday 2pm", et nous trouverons le créneau le plus proche. Ou appelez le {phone}.'
+    },
+    reschedule_unavailable: {
+      en: '{clinicName}: sorry, there are no openings on {date}. Reply with another day and time or call {phone}.',
+      es: '{clinicName}: lo sentimos, no hay horarios el {date}. Responda con otro día y hora o llame al {phone}.',
+      fr: '{clinicName} : désolé, aucun créneau le {date}. Répondez avec un autre jour et une autre heure ou appelez le {phone}.'
+    },
+    waitlist_offer_declined: {
+      en: 'No problem, {name}. You are still on the {clinicName} waitlist and we will text you about the next opening.',
+      es: 'No hay problema, {name}. Sigue en la lista de espera de {clinicName} y le avisaremos del próximo horario.',
+      fr: 'Pas de souci, {name}. Vous restez sur la liste d\'attente de {clinicName} et nous vous écrirons au prochain créneau.'
+    },
+    waitlist_offer_expired: {
+      en: 'Sorry {name}, the opening we held for you at {clinicName} has been released. You are still on the waitlist.',
+      es: 'Lo sentimos {name}, el horario que le guardamos en {clinicName} ya no está disponible. Sigue en la lista de espera.',
+      fr: 'Désolé {name}, le créneau réservé pour vous chez {clinicName} n\'est plus disponible. Vous restez sur la liste d\'attente.'
+    },
+    waitlist_removed: {
+      en: '{clinicName}: you have been taken off the waitlist. Call {phone} whenever you need a visit.',
+      es: '{clinicName}: lo hemos quitado de la lista de espera. Llame al {phone} cuando necesite una visita.',
+      fr: '{clinicName} : vous avez été retiré de la liste d\'attente. Appelez le {phone} si vous avez besoin d\'une visite.'
+    },
+    sms_help: {
+      en: '{clinicName}: reply CONFIRM to confirm, CANCEL to cancel, RESCHEDULE or a day and time to move your visit, STOP to opt out. Call {phone} for help.',
+      es: '{clinicName}: responda CONFIRM para confirmar, CANCEL para cancelar, RESCHEDULE o un día y hora para cambiar su visita, STOP para no recibir mensajes. Llame al {phone}.',
+      fr: '{clinicName} : répondez CONFIRM pour confirmer, CANCEL pour annuler, RESCHEDULE ou un jour et une heure pour déplacer, STOP pour vous désabonner. Appelez le {phone}.'
+    },
+    sms_resubscribed: {
+      en: '{clinicName}: you will receive appointment texts again. Reply STOP to opt out.',
+      es: '{clinicName}: volverá a recibir mensajes sobre sus citas. Responda STOP para darse de baja.',
+      fr: '{clinicName} : vous recevrez à nouveau nos textos de rendez-vous. Répondez STOP pour vous désabonner.'
+    },
+    sms_no_match: {
+      en: '{clinicName}: we could not find an upcoming appointment for this number. Please call {phone}.',
+      es: '{clinicName}: no encontramos una cita próxima para este número. Llame al {phone}.',
+      fr: '{clinicName} : aucun rendez-vous à venir pour ce numéro. Appelez le {phone}.'
+    },
+    sms_unrecognized: {
+      en: '{clinicName}: sorry, we did not understand. Reply CONFIRM, CANCEL, RESCHEDULE or HELP, or call {phone}.',
+      es: '{clinicName}: no entendimos su mensaje. Responda CONFIRM, CANCEL, RESCHEDULE o HELP, o llame al {phone}.',
+      fr: '{clinicName} : message non compris. Répondez CONFIRM, CANCEL, RESCHEDULE ou HELP, ou appelez le {phone}.'
+    },
+    sms_error: {
+      en: '{clinicName}: we could not update your appointment right now. Please call {phone}.',
+      es: '{clinicName}: no pudimos actualizar su cita en este momento. Llame al {phone}.',
+      fr: '{clinicName} : impossible de mettre à jour votre rendez-vous pour le moment. Appelez le {phone}.'
+    }
+  },
+  sms: {
+    maxSegments: 4, // longer bodies are rejected rather than split into many billable parts
+    inboundPollIntervalMs: 30 * 1000, // patient replies are fetched from the SMS proxy this often
+    inboundLookbackMinutes: 10, // how far back the very first poll looks
+    // First word of an inbound reply; carrier STOP/START keywords live in integrationConfig.apis.sms
+    replyKeywords: {
+      confirm: ['CONFIRM', 'CONFIRMED', 'C', 'YES', 'Y', 'SI', 'SÍ', 'OUI'],
+      cancel: ['CANCEL', 'CANCELAR', 'ANNULER'],
+      decline: ['NO', 'NON', 'PASS'], // passes on a waitlist offer
+      reschedule: ['RESCHEDULE', 'CHANGE', 'MOVE', 'REPROGRAMAR', 'CAMBIAR', 'CHANGER'],
+      help: ['HELP', 'INFO', 'AYUDA', 'AIDE']
+    }
+  },
+  outboundQueue: {
+    maxAttempts: 6,
+    baseBackoffMs: 30 * 1000, // doubles after every failed attempt
+    maxBackoffMs: 30 * 60 * 1000,
+    drainIntervalMs: 60 * 1000,
+    dedupeWindowMinutes: 60, // identical message to the same number within this window is sent once
+    dedupeExemptTypes: ['on_call_page', 'red_flag', 'emergency'], // safety-critical texts always go out, even when repeated
+    deliveryCheckIntervalMs: 2 * 60 * 1000, // how often accepted messages are checked for a carrier delivery report
+    deliveryTrackingHours: 24 // messages with no final status after this long are no longer checked
   },
   personalization: true,
   languageSupport: ['en', 'es', 'fr'], // English, Spanish, French
@@ -247,7 +623,17 @@ export const integrationConfig = {
       endpoint: '/api/sms',
       authentication: 'bearer-token',
       rateLimit: 200,
-      timeout: 10000
+      timeout: 10000,
+      optOutKeywords: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'END', 'QUIT'], // CANCEL is kept for appointment replies
+      optInKeywords: ['START', 'UNSTOP', 'YES']
+    },
+    voice: {
+      endpoint: '/api/voice', // proxy to the Vapi REST API that holds the private key
+      authentication: 'bearer-token',
+      rateLimit: 20,
+      timeout: 15000,
+      callPollIntervalMs: 60 * 1000, // how often placed reminder calls are read back for their outcome
+      callStaleMinutes: 60 // a call not ended by then is recorded as failed
     },
     email: {
       endpoint: '/api/email',
@@ -274,7 +660,13 @@ export const integrationConfig = {
 
 // Type definitions for better TypeScript support
 export type ProcedureType = keyof typeof procedureConfig;
+export type RecallType = keyof typeof recallCatalog;
 export type EmergencyKeyword = typeof emergencyKeywords[number];
 export type PainLevel = keyof typeof painLevelKeywords;
+export type UrgencyLevel = keyof typeof triageConfig.recommendedWaitHours;
+export type RedFlagCondition = keyof typeof triageConfig.redFlagConditions;
 export type AppointmentType = keyof typeof appointmentConfig.types;
-export type CommunicationChannel = keyof typeof communicationConfig.channels;
\ No newline at end of file
+export type NoShowRiskLevel = keyof typeof noShowRiskConfig.thresholds | 'low';
+export type CommunicationChannel = keyof typeof communicationConfig.channels;
+export type MessageTemplate = keyof typeof communicationConfig.templates;
+export type SupportedLanguage = typeof communicationConfig.languageSupport[number];
\ No newline at end of file
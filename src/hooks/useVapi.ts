@@ -1,8 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import Vapi from '@vapi-ai/web';
-import type { VapiCall, AudioLevel, TranscriptEntry } from '../types/vapi';
+import type { VapiCall, AudioLevel, TranscriptEntry, VapiToolCall, VapiToolResult } from '../types/vapi';
 import { DentalService } from '../services/dentalService';
-import { airtableService } from '../services/airtableService';
+import type { TriageAssessment } from '../services/emergencyTriage';
+import { EmergencyEscalation } from '../services/emergencyEscalation';
+import { CallTriage } from '../services/callTriage';
+import { ToolRegistry } from '../services/toolRegistry';
+import { AssistantTools } from '../services/assistantTools';
+import { PatientIdentityCapture } from '../services/patientIdentity';
+import { PatientVerification } from '../services/patientVerification';
 
 // Enhanced VAPI configuration
 const VAPI_CONFIG = {
@@ -25,10 +31,14 @@ export const useVapi = () => {
   
   const vapiRef = useRef<Vapi | null>(null);
   const reconnectAttemptsRef = useRef(0);
+  const callIdRef = useRef('');
+  const escalationSentRef = useRef('');
   const maxReconnectAttempts = 3;
 
   useEffect(() => {
     try {
+      AssistantTools.registerAll();
+
       // Initialize VAPI with proper configuration
       const vapi = new Vapi(VAPI_CONFIG.publicKey);
       vapiRef.current = vapi;
@@ -36,11 +46,12 @@ export const useVapi = () => {
       // Enhanced event handlers for conversational features
       vapi.on('call-start', () => {
         console.log('🎙️ Call started - Elite Dental AI Assistant active');
+        callIdRef.current = `call-${Date.now()}`;
         setCall(prev => ({ 
           ...prev, 
           status: 'connecting',
           startTime: new Date(),
-          id: `call-${Date.now()}`
+          id: callIdRef.current
         }));
         setIsCallActive(true);
         setIsLoading(false);
@@ -51,6 +62,10 @@ export const useVapi = () => {
 
       vapi.on('call-end', () => {
         console.log('📞 Call ended - Thank you for using Elite Dental');
+        PatientIdentityCapture.endSession(callIdRef.current);
+        PatientVerification.endSession(callIdRef.current);
+        EmergencyEscalation.endSession(callIdRef.current);
+        CallTriage.endSession(callIdRef.current);
         setCall(prev => ({ 
           ...prev, 
           status: 'ended',
@@ -104,15 +119,20 @@ export const useVapi = () => {
               return updated.slice(-50);
             });
 
-            // Enhanced emergency detection for user messages
+            // Capture caller identity details as they are spoken
             if (message.role === 'user' && newEntry.text) {
+              PatientIdentityCapture.ingestUtterance(callIdRef.current, newEntry.text);
+            }
+
+            // Triage the whole call so far - books at most once per call, escalating if severity rises
+            if (message.role === 'user' && newEntry.text && message.transcriptType !== 'partial') {
               try {
                 if (DentalService.initialize()) {
-                  const isEmergency = DentalService.handleEmergency(newEntry.text);
-                  
-                  // If emergency detected, create appointment in Airtable
-                  if (isEmergency) {
-                    await handleEmergencyBooking(newEntry.text);
+                  const triage = CallTriage.ingestUtterance(callIdRef.current, newEntry.text);
+
+                  // Red flags go to the ER - have the assistant say so immediately
+                  if (triage.escalated) {
+                    sendEscalationInstruction(triage.assessment);
                   }
                 }
               } catch (emergencyError) {
@@ -127,6 +147,12 @@ export const useVapi = () => {
             handleFunctionCall(message.functionCall);
           }
 
+          if (message.type === 'tool-calls') {
+            const toolCalls: VapiToolCall[] = message.toolCalls || message.toolCallList || [];
+            console.log('🔧 Tool calls:', toolCalls.map(toolCall => toolCall.function?.name));
+            handleToolCalls(toolCalls);
+          }
+
           // Handle conversation state changes
           if (message.type === 'conversation-update') {
             console.log('💭 Conversation update:', message);
@@ -244,67 +270,91 @@ export const useVapi = () => {
     }
   }, []);
 
-  // Handle emergency booking with Airtable integration
-  const handleEmergencyBooking = useCallback(async (symptoms: string) => {
+  // Tell the assistant to relay ER/911 instructions, once per call
+  const sendEscalationInstruction = useCallback((assessment: TriageAssessment) => {
+    if (!vapiRef.current || escalationSentRef.current === callIdRef.current) return;
+    escalationSentRef.current = callIdRef.current;
+
     try {
-      // Extract urgency level from symptoms
-      const highUrgencyKeywords = ['unbearable', 'excruciating', 'severe', 'bleeding', 'can\'t sleep'];
-      const urgencyLevel = highUrgencyKeywords.some(keyword => 
-        symptoms.toLowerCase().includes(keyword)
-      ) ? 'high' : 'medium';
-      
-      // Determine pain level
-      let painLevel = 5;
-      if (symptoms.toLowerCase().includes('unbearable') || symptoms.toLowerCase().includes('excruciating')) {
-        painLevel = 9;
-      } else if (symptoms.toLowerCase().includes('severe') || symptoms.toLowerCase().includes('bad')) {
-        painLevel = 7;
-      }
+      vapiRef.current.send({
+        type: 'add-message',
+        message: {
+          role: 'system',
+          content: `RED FLAG EMERGENCY. Tell the caller now: ${EmergencyEscalation.getCallerInstruction(assessment)}`
+        },
+        triggerResponseEnabled: true
+      });
+    } catch (error) {
+      console.error('Error sending escalation instruction:', error);
+    }
+  }, []);
 
-      // Create emergency appointment in Airtable
-      const emergencyData = {
-        patientName: 'Voice Call Patient', // This would be extracted from conversation
-        phone: 'Voice-' + Date.now(), // Temporary identifier
-        symptoms,
-        painLevel,
-        urgencyLevel: urgencyLevel as 'high' | 'medium' | 'low'
-      };
+  // Return a legacy function-call result to the assistant so it can speak the outcome
+  const sendFunctionResult = useCallback((name: string, result: unknown) => {
+    if (!vapiRef.current) return;
 
-      const result = await airtableService.createEmergencyAppointment(emergencyData);
-      console.log('Emergency appointment created in Airtable:', result);
-      
+    try {
+      vapiRef.current.send({
+        type: 'add-message',
+        message: {
+          role: 'system',
+          content: `Result of ${name}: ${JSON.stringify(result)}`
+        },
+        triggerResponseEnabled: true
+      });
     } catch (error) {
-      console.error('Failed to create emergency appointment:', error);
+      console.error('Error sending function result:', error);
     }
   }, []);
 
-  // Handle function calls from the assistant
-  const handleFunctionCall = useCallback((functionCall: any) => {
-    try {
-      const { name, parameters } = functionCall;
-      
-      switch (name) {
-        case 'schedule_appointment':
-          console.log('📅 Scheduling appointment:', parameters);
-          // Handle appointment scheduling
-          break;
-        case 'emergency_triage':
-          console.log('🚨 Emergency triage:', parameters);
-          if (DentalService.initialize()) {
-            DentalService.handleEmergency(parameters.symptoms || '');
-          }
-          break;
-        case 'patient_verification':
-          console.log('🔍 Patient verification:', parameters);
-          // Handle patient verification
-          break;
-        default:
-          console.log('🔧 Unknown function call:', name, parameters);
+  // Return tool-call results, each tagged with the id of the call it answers
+  const sendToolResults = useCallback((results: VapiToolResult[]) => {
+    if (!vapiRef.current) return;
+
+    results.forEach((result, index) => {
+      try {
+        vapiRef.current?.send({
+          type: 'add-message',
+          message: {
+            role: 'tool',
+            tool_call_id: result.toolCallId,
+            content: JSON.stringify(result.error ? { error: result.error } : result.result ?? null)
+          },
+          // Let the assistant respond once, after the last result is in
+          triggerResponseEnabled: index === results.length - 1
+        });
+      } catch (error) {
+        console.error('Error sending tool result:', error);
       }
+    });
+  }, []);
+
+  // Handle legacy function calls from the assistant
+  const handleFunctionCall = useCallback(async (functionCall: { name: string; parameters?: Record<string, unknown> }) => {
+    const { name, parameters } = functionCall;
+
+    try {
+      const result = await ToolRegistry.execute(name, parameters || {}, {
+        toolCallId: `function-${Date.now()}`,
+        callId: callIdRef.current
+      });
+      sendFunctionResult(name, result);
     } catch (error) {
-      console.error('Error handling function call:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown function error';
+      console.error('Error handling function call:', errorMessage);
+      sendFunctionResult(name, { error: errorMessage });
     }
-  }, []);
+  }, [sendFunctionResult]);
+
+  // Handle modern tool-calls messages; handlers run concurrently
+  const handleToolCalls = useCallback(async (toolCalls: VapiToolCall[]) => {
+    try {
+      const results = await ToolRegistry.executeToolCalls(toolCalls, callIdRef.current);
+      sendToolResults(results);
+    } catch (error) {
+      console.error('Error handling tool calls:', error);
+    }
+  }, [sendToolResults]);
 
   // Enhanced start call with proper configuration
   const startCall = useCallback(async () => {
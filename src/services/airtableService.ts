@@ -1,6 +1,9 @@
 // Airtable Integration Service for Elite Dental AI Widget
 // Manages patient bookings, treatment schedules, and clinic data
 
+import { triageConfig, RecallType, UrgencyLevel } from '../config/dental';
+import { SchedulingEngine } from './schedulingEngine';
+
 export interface PatientRecord {
   id?: string;
   patientName: string;
@@ -14,6 +17,8 @@ export interface PatientRecord {
   allergies?: string;
   currentMedications?: string;
   preferredContactMethod: 'sms' | 'email' | 'call';
+  preferredLanguage?: string; // one of communicationConfig.languageSupport; English when unset
+  mailingAddress?: string; // multi-line postal address for printed letters
   createdAt?: string;
   updatedAt?: string;
   status: 'active' | 'inactive' | 'archived';
@@ -29,6 +34,8 @@ export interface AppointmentRecord {
   duration: number;
   procedure: string;
   provider: string;
+  providerId?: string;
+  chair?: string;
   status: 'scheduled' | 'confirmed' | 'completed' | 'cancelled' | 'no-show';
   priority: 'routine' | 'urgent' | 'emergency';
   notes?: string;
@@ -37,6 +44,9 @@ export interface AppointmentRecord {
   estimatedCost?: number;
   insuranceCovered?: boolean;
   remindersSent?: number;
+  extraRemindersSent?: number; // high no-show risk touchpoints already handled
+  recallId?: string; // recall opened when this visit was completed
+  lastReminderOutcome?: 'confirmed' | 'rescheduled' | 'cancelled' | 'voicemail' | 'no_answer' | 'no_decision' | 'failed';
   createdAt?: string;
   updatedAt?: string;
   createdBy: 'ai-assistant' | 'staff' | 'patient';
@@ -85,13 +95,20 @@ export interface RecallRecord {
   lastVisitDate: string;
   lastProcedure: string;
   nextDueDate: string;
-  recallType: 'cleaning' | 'checkup' | 'periodontal' | 'crown' | 'implant' | 'filling';
+  recallType: RecallType; // key of recallCatalog
   intervalMonths: number;
   status: 'due' | 'overdue' | 'contacted' | 'scheduled' | 'completed';
   contactAttempts: number;
   lastContactDate?: string;
   preferredContactMethod: 'sms' | 'email' | 'call';
   estimatedRevenue: number;
+  appointmentId?: string; // the booked visit that satisfies this recall
+  remindersSent?: number; // cadence steps already handled, see RecallCadence.getPlan
+  letterStatus?: 'to_print' | 'mailed'; // certified recall letter, see RecallCadence.queueLetter
+  letterBody?: string;
+  letterAddress?: string;
+  letterQueuedAt?: string;
+  letterMailedAt?: string;
   notes?: string;
 }
 
@@ -130,6 +147,12 @@ class AirtableService {
     };
   }
 
+  // Match a phone field on its last ten digits so "+1 (555) 123-4567" finds "555-123-4567"
+  private phoneFormula(phone: string): string {
+    const digits = phone.replace(/\D/g, '').slice(-10);
+    return `RIGHT(REGEX_REPLACE(phone, "[^0-9]", ""), 10) = "${digits}"`;
+  }
+
   private async makeRequest<T>(
     endpoint: string, 
     method: 'GET' | 'POST' | 'PATCH' | 'DELETE' = 'GET', 
@@ -228,6 +251,16 @@ class AirtableService {
     return { id: response.id, ...response.fields };
   }
 
+  async getAppointment(appointmentId: string): Promise<AppointmentRecord | null> {
+    try {
+      const response = await this.makeRequest<any>(`${this.tables.appointments}/${appointmentId}`);
+      return { id: response.id, ...response.fields };
+    } catch (error) {
+      console.error('Appointment not found:', error);
+      return null;
+    }
+  }
+
   async getAppointments(filters?: {
     date?: string;
     patientId?: string;
@@ -261,6 +294,19 @@ class AirtableService {
     return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
   }
 
+  async getAppointmentsInRange(startDate: string, endDate: string): Promise<AppointmentRecord[]> {
+    const filterFormula = `?filterByFormula=AND(appointmentDate >= "${startDate}", appointmentDate <= "${endDate}", status != "cancelled", status != "no-show")`;
+    const response = await this.makeRequest<any>(`${this.tables.appointments}${filterFormula}`);
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
+  // Appointments with a final outcome - attended, missed or cancelled
+  async getAppointmentHistory(startDate: string, endDate: string): Promise<AppointmentRecord[]> {
+    const filterFormula = `?filterByFormula=AND(appointmentDate >= "${startDate}", appointmentDate <= "${endDate}", OR(status = "completed", status = "no-show", status = "cancelled"))`;
+    const response = await this.makeRequest<any>(`${this.tables.appointments}${filterFormula}`);
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
   async updateAppointment(appointmentId: string, updates: Partial<AppointmentRecord>): Promise<AppointmentRecord> {
     const record = {
       fields: {
@@ -273,6 +319,13 @@ class AirtableService {
     return { id: response.id, ...response.fields };
   }
 
+  // Upcoming appointments for a phone number in any format, soonest first
+  async findUpcomingAppointmentsByPhone(phone: string, fromDate: string): Promise<AppointmentRecord[]> {
+    const filterFormula = `?filterByFormula=AND(${this.phoneFormula(phone)}, appointmentDate >= "${fromDate}", OR(status = "scheduled", status = "confirmed"))&sort[0][field]=appointmentDate&sort[0][direction]=asc&sort[1][field]=appointmentTime&sort[1][direction]=asc`;
+    const response = await this.makeRequest<any>(`${this.tables.appointments}${filterFormula}`);
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
   async cancelAppointment(appointmentId: string, reason?: string): Promise<AppointmentRecord> {
     return this.updateAppointment(appointmentId, {
       status: 'cancelled',
@@ -286,7 +339,7 @@ class AirtableService {
     phone: string;
     symptoms: string;
     painLevel: number;
-    urgencyLevel: 'high' | 'medium' | 'low';
+    urgencyLevel: UrgencyLevel;
   }): Promise<{ patient: PatientRecord; appointment: AppointmentRecord }> {
     try {
       // Find or create patient
@@ -301,22 +354,23 @@ class AirtableService {
         });
       }
 
-      // Calculate appointment time based on urgency
-      const appointmentDate = new Date();
-      const hoursToAdd = emergencyData.urgencyLevel === 'high' ? 2 : 
-                        emergencyData.urgencyLevel === 'medium' ? 6 : 24;
-      appointmentDate.setHours(appointmentDate.getHours() + hoursToAdd);
+      // Find the first genuinely free slot, holding lower urgencies back for more critical cases
+      const leadHours = triageConfig.bookingLeadHours[emergencyData.urgencyLevel];
+      const slot = await SchedulingEngine.findFirstOpenSlot({
+        procedure: 'emergency',
+        earliest: new Date(Date.now() + leadHours * 60 * 60 * 1000)
+      });
 
-      // Create emergency appointment
-      const appointment = await this.createAppointment({
+      if (!slot) {
+        throw new Error('No open emergency slot available within the search window');
+      }
+
+      // Create emergency appointment with the dentist the slot was computed for
+      const appointment = await SchedulingEngine.bookSlot(slot, {
         patientId: patient.id!,
         patientName: emergencyData.patientName,
         phone: emergencyData.phone,
-        appointmentDate: appointmentDate.toISOString().split('T')[0],
-        appointmentTime: appointmentDate.toTimeString().slice(0, 5),
-        duration: 60,
         procedure: 'Emergency Consultation',
-        provider: 'Dr. Available',
         status: 'scheduled',
         priority: 'emergency',
         symptoms: emergencyData.symptoms,
@@ -378,6 +432,17 @@ class AirtableService {
     return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
   }
 
+  async findWaitlistByPhone(phone: string): Promise<WaitlistRecord[]> {
+    const filterFormula = `?filterByFormula=AND(${this.phoneFormula(phone)}, OR(status = "active", status = "contacted"))&sort[0][field]=addedDate&sort[0][direction]=asc`;
+    const response = await this.makeRequest<any>(`${this.tables.waitlist}${filterFormula}`);
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
+  async updateWaitlistEntry(waitlistId: string, updates: Partial<WaitlistRecord>): Promise<WaitlistRecord> {
+    const response = await this.makeRequest<any>(`${this.tables.waitlist}/${waitlistId}`, 'PATCH', { fields: updates });
+    return { id: response.id, ...response.fields };
+  }
+
   // Recall Management
   async createRecall(recallData: Omit<RecallRecord, 'id' | 'contactAttempts' | 'status'>): Promise<RecallRecord> {
     const record = {
@@ -401,6 +466,55 @@ class AirtableService {
     return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
   }
 
+  async getRecalls(filters?: {
+    statuses?: RecallRecord['status'][];
+    dueBy?: string;
+    patientId?: string;
+    letterStatus?: RecallRecord['letterStatus'];
+  }): Promise<RecallRecord[]> {
+    const conditions: string[] = [];
+
+    if (filters?.patientId) {
+      conditions.push(`patientId = "${filters.patientId}"`);
+    }
+    if (filters?.statuses?.length) {
+      conditions.push(`OR(${filters.statuses.map(status => `status = "${status}"`).join(', ')})`);
+    }
+    if (filters?.dueBy) {
+      conditions.push(`nextDueDate <= "${filters.dueBy}"`);
+    }
+    if (filters?.letterStatus) {
+      conditions.push(`letterStatus = "${filters.letterStatus}"`);
+    }
+
+    const filterFormula = conditions.length > 0 ? `filterByFormula=AND(${conditions.join(', ')})&` : '';
+    const response = await this.makeRequest<any>(
+      `${this.tables.recalls}?${filterFormula}sort[0][field]=nextDueDate&sort[0][direction]=asc`
+    );
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
+  async findRecallsByPhone(phone: string): Promise<RecallRecord[]> {
+    const filterFormula = `?filterByFormula=AND(${this.phoneFormula(phone)}, OR(status = "due", status = "overdue", status = "contacted"))&sort[0][field]=nextDueDate&sort[0][direction]=asc`;
+    const response = await this.makeRequest<any>(`${this.tables.recalls}${filterFormula}`);
+    return response.records.map((record: any) => ({ id: record.id, ...record.fields }));
+  }
+
+  async getRecall(recallId: string): Promise<RecallRecord | null> {
+    try {
+      const response = await this.makeRequest<{ id: string; fields: Omit<RecallRecord, 'id'> }>(`${this.tables.recalls}/${recallId}`);
+      return { id: response.id, ...response.fields };
+    } catch (error) {
+      console.error('Recall not found:', error);
+      return null;
+    }
+  }
+
+  async updateRecall(recallId: string, updates: Partial<RecallRecord>): Promise<RecallRecord> {
+    const response = await this.makeRequest<any>(`${this.tables.recalls}/${recallId}`, 'PATCH', { fields: updates });
+    return { id: response.id, ...response.fields };
+  }
+
   // Treatment Plans
   async createTreatmentPlan(treatmentPlan: Omit<TreatmentPlan, 'id' | 'createdDate'>): Promise<TreatmentPlan> {
     const record = {
@@ -435,18 +549,41 @@ class AirtableService {
     await this.makeRequest(`${this.tables.emergencyLog}`, 'POST', record);
   }
 
+  async logEmergencyEscalation(escalationLog: {
+    callId?: string;
+    patientName?: string;
+    phone?: string;
+    conditions: string;
+    symptoms: string;
+    pagedStaff: string;
+    escalatedAt: string;
+  }): Promise<void> {
+    const record = {
+      fields: {
+        ...escalationLog,
+        logType: 'red_flag_escalation',
+        timestamp: new Date().toISOString()
+      }
+    };
+
+    await this.makeRequest(`${this.tables.emergencyLog}`, 'POST', record);
+  }
+
   async logHIPAACompliance(complianceLog: {
     action: string;
     dataType: string;
     redacted: boolean;
     userAgent: string;
     ipAddress?: string;
+    patientId?: string;
+    outcome?: string;
+    sessionId?: string;
   }): Promise<void> {
     const record = {
       fields: {
+        sessionId: `session-${Date.now()}`,
         ...complianceLog,
-        timestamp: new Date().toISOString(),
-        sessionId: `session-${Date.now()}`
+        timestamp: new Date().toISOString()
       }
     };
 
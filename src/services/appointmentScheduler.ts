@@ -0,0 +1,189 @@
+// Appointment Scheduler for Elite Dental AI Widget
+// Turns the assistant's schedule_appointment requests into real, confirmed bookings
+
+import { businessConfig, procedureConfig, ProcedureType } from '../config/dental';
+import { airtableService, AppointmentRecord, PatientRecord } from './airtableService';
+import { DentalService } from './dentalService';
+import { SchedulingEngine, AppointmentSlot, SlotUnavailableError } from './schedulingEngine';
+import { ClinicTime } from '../utils/clinicTime';
+
+export interface ScheduleAppointmentRequest {
+  procedure?: string; // free text, e.g. "I need my teeth cleaned"
+  phone?: string;
+  preferredDate?: string; // YYYY-MM-DD
+  date?: string; // YYYY-MM-DD of the slot the caller accepted
+  time?: string; // HH:mm of the slot the caller accepted
+  providerId?: string;
+  notes?: string;
+  patient?: PatientRecord; // caller identity confirmed earlier in the call
+}
+
+export interface ScheduleAppointmentResult {
+  status: 'booked' | 'slots_proposed' | 'needs_information' | 'unavailable' | 'error';
+  message: string; // what the assistant should tell the caller
+  appointment?: AppointmentRecord;
+  slots?: AppointmentSlot[];
+  missing?: string[];
+}
+
+export class AppointmentScheduler {
+  private static proposalCount = 3;
+
+  static async scheduleAppointment(request: ScheduleAppointmentRequest): Promise<ScheduleAppointmentResult> {
+    try {
+      const procedure = DentalService.identifyProcedure(request.procedure || '') as ProcedureType | null;
+      const missing: string[] = [];
+      if (!procedure) missing.push('procedure');
+      if (!request.phone && !request.patient) missing.push('phone');
+
+      if (!procedure || missing.length > 0) {
+        return {
+          status: 'needs_information',
+          message: `Before I can book, I need the caller's ${missing.join(' and ')}.`,
+          missing
+        };
+      }
+
+      // Only book for a patient confirmed on this call - captured as new, or verified against an existing record
+      const patient = request.patient;
+      if (!patient) {
+        const existing = await airtableService.findPatientByPhone(request.phone!);
+        return existing
+          ? {
+            status: 'needs_information',
+            message: 'That phone number belongs to an existing patient. Verify the caller with patient_verification before booking.',
+            missing: ['verification']
+          }
+          : {
+            status: 'needs_information',
+            message: 'This is a new patient. Capture and confirm their full name, phone number and date of birth before booking.',
+            missing: ['identity']
+          };
+      }
+
+      // Caller accepted a specific time - book it if it is still free
+      if (request.date && request.time) {
+        const requested = await this.findRequestedSlot(procedure, request.date, request.time, request.providerId);
+
+        if (requested) {
+          try {
+            const appointment = await SchedulingEngine.bookSlot(requested, {
+              patientId: patient.id!,
+              patientName: patient.patientName,
+              phone: patient.phone,
+              procedure,
+              status: 'scheduled',
+              priority: 'routine',
+              notes: request.notes,
+              estimatedCost: procedureConfig[procedure].cost,
+              remindersSent: 0,
+              createdBy: 'ai-assistant'
+            });
+
+            return {
+              status: 'booked',
+              message: `You're all set: ${procedureConfig[procedure].description.toLowerCase()} on ${this.describeSlot(requested)}.`,
+              appointment
+            };
+          } catch (error) {
+            // Taken by another booking since it was offered - fall through and offer fresh times
+            if (!(error instanceof SlotUnavailableError)) throw error;
+            console.log('Requested slot was taken before it could be booked:', error.message);
+          }
+        }
+      }
+
+      // Otherwise offer the next genuinely open slots
+      const slots = await SchedulingEngine.findOpenSlots({
+        procedure,
+        providerId: request.providerId,
+        earliest: this.getSearchStart(request.preferredDate || request.date),
+        limit: this.proposalCount
+      });
+
+      if (slots.length === 0) {
+        return {
+          status: 'unavailable',
+          message: 'There are no open times in the next two weeks. Offer to add the caller to the waitlist.'
+        };
+      }
+
+      const prefix = request.date && request.time
+        ? 'That time is no longer available. '
+        : '';
+
+      return {
+        status: 'slots_proposed',
+        message: `${prefix}The next available times are ${slots.map(slot => this.describeSlot(slot)).join('; ')}. Which works best?`,
+        slots
+      };
+
+    } catch (error) {
+      console.error('Appointment scheduling failed:', error);
+      return {
+        status: 'error',
+        message: 'I was unable to reach the scheduling system. Please offer to have the front desk call back.'
+      };
+    }
+  }
+
+  // Spoken form of a slot in the clinic's time zone, e.g. "Tuesday, October 20 at 9:30 AM with Dr. Elena Morales"
+  static describeSlot(slot: AppointmentSlot): string {
+    const when = slot.start.toLocaleString('en-US', {
+      timeZone: businessConfig.timeZone,
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    });
+    return `${when.replace(/, (\d{1,2}:\d{2})/, ' at $1')} with ${slot.provider}`;
+  }
+
+  // First opening on `date` at or after `time` (start of day when no time is given)
+  static async findSlotNear(procedure: string, date: string, time?: string): Promise<AppointmentSlot | null> {
+    const earliest = new Date(Math.max(ClinicTime.clinicTimeToDate(date, time || '00:00').getTime(), Date.now()));
+    const slot = await SchedulingEngine.findFirstOpenSlot({ procedure, earliest, searchDays: 1 });
+    return slot && slot.date === date ? slot : null;
+  }
+
+  // Move an existing appointment into a new slot (re-checked like a new booking); reminders start over for the new time
+  static async moveAppointment(appointment: AppointmentRecord, slot: AppointmentSlot, reason: string): Promise<AppointmentRecord> {
+    const note = `${reason} from ${appointment.appointmentDate} ${appointment.appointmentTime}`;
+    return SchedulingEngine.moveToSlot(appointment, slot, {
+      status: 'scheduled',
+      remindersSent: 0,
+      extraRemindersSent: 0,
+      notes: appointment.notes ? `${appointment.notes}\n${note}` : note
+    });
+  }
+
+  private static async findRequestedSlot(
+    procedure: ProcedureType,
+    date: string,
+    time: string,
+    providerId?: string
+  ): Promise<AppointmentSlot | null> {
+    // A time that has already passed never matches, so the caller is offered the next open times instead
+    const slots = await SchedulingEngine.findOpenSlots({
+      procedure,
+      providerId,
+      earliest: new Date(Math.max(ClinicTime.clinicTimeToDate(date, time).getTime(), Date.now())),
+      searchDays: 1,
+      limit: 1
+    });
+
+    const slot = slots[0];
+    return slot && slot.date === date && slot.time === time ? slot : null;
+  }
+
+  private static getSearchStart(preferredDate?: string): Date {
+    if (preferredDate && /^\d{4}-\d{2}-\d{2}$/.test(preferredDate)) {
+      const preferred = ClinicTime.clinicTimeToDate(preferredDate, '00:00');
+      if (preferred.getTime() > Date.now()) {
+        return preferred;
+      }
+    }
+    return new Date();
+  }
+}
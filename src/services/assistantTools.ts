@@ -0,0 +1,168 @@
+// Assistant Tool Definitions for Elite Dental AI Widget
+// Registers every tool the voice assistant may call; add new tools here rather than in useVapi
+
+import { ToolRegistry } from './toolRegistry';
+import { AppointmentScheduler, ScheduleAppointmentRequest } from './appointmentScheduler';
+import { DentalService } from './dentalService';
+import { EmergencyTriage } from './emergencyTriage';
+import { EmergencyEscalation } from './emergencyEscalation';
+import { CallTriage } from './callTriage';
+import { PatientIdentityCapture, CapturedIdentity } from './patientIdentity';
+import { PatientVerification } from './patientVerification';
+
+export class AssistantTools {
+  private static registered = false;
+
+  static registerAll(): void {
+    if (this.registered) return;
+
+    ToolRegistry.register<ScheduleAppointmentRequest>({
+      name: 'schedule_appointment',
+      description: 'Propose open appointment times, or book the time the caller accepted.',
+      parameters: {
+        type: 'object',
+        properties: {
+          procedure: { type: 'string', description: 'What the caller needs, in their words' },
+          phone: { type: 'string', description: 'Caller phone number' },
+          preferredDate: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+          date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Date of the accepted slot' },
+          time: { type: 'string', pattern: '^\\d{2}:\\d{2}$', description: 'Time of the accepted slot' },
+          providerId: { type: 'string' },
+          notes: { type: 'string' }
+        },
+        required: ['procedure']
+      },
+      handler: async (args, context) => {
+        const patient = context.callId ? PatientIdentityCapture.getConfirmedPatient(context.callId) : null;
+        const result = await AppointmentScheduler.scheduleAppointment({ ...args, patient: patient || undefined });
+        return {
+          status: result.status,
+          message: result.message,
+          appointmentId: result.appointment?.id,
+          slots: result.slots?.map(slot => ({
+            date: slot.date,
+            time: slot.time,
+            provider: slot.provider,
+            providerId: slot.providerId
+          })),
+          missing: result.missing
+        };
+      }
+    });
+
+    ToolRegistry.register<{ symptoms: string }>({
+      name: 'emergency_triage',
+      description: 'Assess the caller\'s symptoms and book an emergency visit when needed.',
+      parameters: {
+        type: 'object',
+        properties: {
+          symptoms: { type: 'string', description: 'Symptoms as described by the caller' }
+        },
+        required: ['symptoms']
+      },
+      handler: async (args, context) => {
+        if (!DentalService.initialize()) {
+          throw new Error('Dental service unavailable');
+        }
+
+        // Without a call there is nothing to book against - assess only
+        if (!context.callId) {
+          const assessment = EmergencyTriage.analyzeEmergency(args.symptoms);
+          return { ...assessment, isEmergency: DentalService.handleEmergency(args.symptoms) };
+        }
+
+        // Same per-call triage as the live transcript, so the call still books at most once
+        const triage = CallTriage.ingestUtterance(context.callId, args.symptoms);
+        const { assessment } = triage;
+
+        // Red flags are escalated, not booked - the assistant must relay the ER/911 instruction first
+        if (triage.escalated) {
+          return {
+            ...assessment,
+            escalated: true,
+            instruction: EmergencyEscalation.getCallerInstruction(assessment)
+          };
+        }
+
+        const identity = PatientIdentityCapture.getStatus(context.callId);
+        return {
+          ...assessment,
+          appointmentBooked: !!triage.appointmentId,
+          identityConfirmed: identity.confirmed,
+          missingIdentity: assessment.isEmergency ? identity.missing : []
+        };
+      }
+    });
+
+    ToolRegistry.register<CapturedIdentity>({
+      name: 'capture_patient_identity',
+      description: 'Record the caller\'s name, phone number and/or date of birth as they give them.',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Full name' },
+          phone: { type: 'string', description: '10-digit phone number' },
+          dateOfBirth: { type: 'string', description: 'Date of birth, e.g. 03/15/1985' }
+        }
+      },
+      handler: async (args, context) => {
+        if (!context.callId) {
+          throw new Error('No active call');
+        }
+        return PatientIdentityCapture.provide(context.callId, args);
+      }
+    });
+
+    ToolRegistry.register<Record<string, never>>({
+      name: 'confirm_patient_identity',
+      description: 'Call after reading the captured name, phone and date of birth back to the caller and hearing them confirm. ' +
+        'If the phone number belongs to an existing patient, verification starts - continue with patient_verification.',
+      parameters: { type: 'object', properties: {} },
+      handler: async (_args, context) => {
+        if (!context.callId) {
+          throw new Error('No active call');
+        }
+        const result = await PatientIdentityCapture.confirm(context.callId);
+        // An existing patient's record is only linked through verification, with its attempt cap, lockout and audit log
+        const verification = result.requiresVerification && result.status.identity.phone
+          ? await PatientVerification.start(context.callId, result.status.identity.phone)
+          : undefined;
+        return {
+          success: result.success,
+          reason: result.reason,
+          patientId: result.status.patientId,
+          missing: result.status.missing,
+          errors: result.status.errors,
+          verification
+        };
+      }
+    });
+
+    ToolRegistry.register<{ phone?: string; response?: string; requestSmsCode?: boolean }>({
+      name: 'patient_verification',
+      description: 'Verify an existing patient before discussing their account. Start with the phone number, then pass each answer as response.',
+      parameters: {
+        type: 'object',
+        properties: {
+          phone: { type: 'string', description: 'Phone number on the account - starts verification' },
+          response: { type: 'string', description: 'The caller\'s answer to the current challenge' },
+          requestSmsCode: { type: 'boolean', description: 'Text a one-time code instead' }
+        }
+      },
+      handler: async (args, context) => {
+        if (!context.callId) {
+          throw new Error('No active call');
+        }
+        if (args.phone) {
+          return PatientVerification.start(context.callId, args.phone);
+        }
+        if (args.requestSmsCode) {
+          return PatientVerification.requestSmsFallback(context.callId);
+        }
+        return PatientVerification.answer(context.callId, args.response || '');
+      }
+    });
+
+    this.registered = true;
+  }
+}
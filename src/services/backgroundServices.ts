@@ -0,0 +1,112 @@
+// Background Services for Elite Dental AI Widget
+// Runs the clinic's interval jobs from exactly one staff dashboard tab - the holder of a browser-wide Web Lock
+
+import { OutboundQueue } from './outboundQueue';
+import { ReminderScheduler } from './reminderScheduler';
+import { SlotOfferCascade } from './slotOffers';
+import { RecallAutomator } from './recallAutomator';
+import { InboundSmsProcessor } from './inboundSms';
+import { VoiceReminders } from './voiceReminders';
+
+export type BackgroundRole = 'stopped' | 'waiting' | 'leader' | 'unsupported';
+
+interface BackgroundService {
+  start(): void;
+  stop(): void;
+}
+
+const LEADER_LOCK = 'dental_background_leader';
+
+// Deliver queued SMS; act on patient replies and finished reminder calls; send appointment reminders as they
+// come due; pass freed slots to the next waitlist patient when a hold runs out; work through each recall's cadence
+const SERVICES: BackgroundService[] = [
+  OutboundQueue,
+  InboundSmsProcessor,
+  VoiceReminders,
+  ReminderScheduler,
+  SlotOfferCascade,
+  RecallAutomator
+];
+
+export class BackgroundServices {
+  private static role: BackgroundRole = 'stopped';
+  private static abort: AbortController | null = null;
+  private static release: (() => void) | null = null;
+  private static listeners: Set<() => void> = new Set();
+
+  // Queue for leadership; other dashboard tabs wait and take over when the leader's tab closes
+  static start(): void {
+    if (this.role !== 'stopped' && this.role !== 'unsupported') return;
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      // Without a cross-tab lock there is no way to run each job exactly once, so nothing runs here
+      console.warn('Web Locks are unavailable - background jobs will not run in this browser');
+      this.setRole('unsupported');
+      return;
+    }
+
+    const abort = new AbortController();
+    this.abort = abort;
+    this.setRole('waiting');
+
+    navigator.locks.request(LEADER_LOCK, { signal: abort.signal }, () => {
+      this.startServices();
+      this.setRole('leader');
+      // Held until stop() resolves it or the tab goes away
+      return new Promise<void>(resolve => {
+        this.release = resolve;
+      });
+    }).catch(error => {
+      if (!abort.signal.aborted) {
+        console.error('Background leader lock failed:', error);
+        this.setRole('stopped');
+      }
+    });
+  }
+
+  static stop(): void {
+    if (this.role === 'leader') {
+      this.stopServices();
+    }
+    this.abort?.abort();
+    this.release?.();
+    this.abort = null;
+    this.release = null;
+    this.setRole('stopped');
+  }
+
+  static getRole(): BackgroundRole {
+    return this.role;
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private static startServices(): void {
+    console.log('This tab now runs the background jobs');
+    SERVICES.forEach(service => {
+      try {
+        service.start();
+      } catch (error) {
+        console.error('Background service failed to start:', error);
+      }
+    });
+  }
+
+  private static stopServices(): void {
+    SERVICES.forEach(service => service.stop());
+  }
+
+  private static setRole(role: BackgroundRole): void {
+    this.role = role;
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Background services listener failed:', error);
+      }
+    });
+  }
+}
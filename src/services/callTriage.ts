@@ -0,0 +1,199 @@
+// Call-Level Triage for Elite Dental AI Widget
+// Accumulates the caller's words across the whole call and books at most one emergency appointment per call id
+
+import { triageConfig, UrgencyLevel } from '../config/dental';
+import { airtableService, AppointmentRecord, PatientRecord } from './airtableService';
+import { DentalService } from './dentalService';
+import { EmergencyTriage, TriageAssessment } from './emergencyTriage';
+import { EmergencyEscalation } from './emergencyEscalation';
+import { PatientIdentityCapture } from './patientIdentity';
+import { SchedulingEngine } from './schedulingEngine';
+import { SymptomExtractor } from './symptomExtractor';
+import { TemplateEngine } from './templateEngine';
+import { ClinicTime } from '../utils/clinicTime';
+
+export interface CallTriageState {
+  callId: string;
+  assessment: TriageAssessment; // over everything the caller has said so far
+  appointmentId?: string;
+  bookedUrgency?: UrgencyLevel;
+  awaitingIdentity: boolean;
+  escalated: boolean;
+}
+
+interface CallTriageSession extends CallTriageState {
+  utterances: string[];
+  identityListener: boolean;
+  booking?: Promise<void>; // in-flight booking or update - later evidence waits for it
+}
+
+const URGENCY_RANK: Record<UrgencyLevel, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export class CallTriage {
+  private static sessions: Map<string, CallTriageSession> = new Map();
+
+  // Add one caller utterance and re-assess the whole call
+  static ingestUtterance(callId: string, utterance: string): CallTriageState {
+    const session = this.getSession(callId);
+    if (!utterance || typeof utterance !== 'string' || !utterance.trim()) {
+      return this.toState(session);
+    }
+
+    session.utterances.push(utterance.trim());
+    session.assessment = EmergencyTriage.analyzeEmergency(session.utterances.join('. '));
+
+    if (!session.assessment.isEmergency) {
+      return this.toState(session);
+    }
+
+    if (EmergencyEscalation.requiresEscalation(session.assessment)) {
+      session.escalated = true;
+      EmergencyEscalation.escalate(session.assessment, {
+        callId,
+        utterance,
+        patient: PatientIdentityCapture.getConfirmedPatient(callId) || undefined
+      }).catch(error => console.error('Emergency escalation failed:', error));
+      return this.toState(session);
+    }
+
+    const patient = PatientIdentityCapture.getConfirmedPatient(callId);
+    if (patient) {
+      this.queue(session, patient);
+    } else if (!session.identityListener) {
+      // One listener per call; it books with whatever the assessment is by the time identity is confirmed
+      session.identityListener = true;
+      session.awaitingIdentity = true;
+      console.log('🚨 Emergency booking waiting for caller identity:', PatientIdentityCapture.getStatus(callId).missing);
+      PatientIdentityCapture.whenConfirmed(callId, confirmed => {
+        session.awaitingIdentity = false;
+        if (!session.escalated) {
+          this.queue(session, confirmed);
+        }
+      });
+    }
+
+    return this.toState(session);
+  }
+
+  static getState(callId: string): CallTriageState | null {
+    const session = this.sessions.get(callId);
+    return session ? this.toState(session) : null;
+  }
+
+  // Resolves once any booking or update for the call has finished
+  static async settle(callId: string): Promise<void> {
+    await this.sessions.get(callId)?.booking;
+  }
+
+  static endSession(callId: string): void {
+    this.sessions.delete(callId);
+  }
+
+  // Serialise bookings per call so two quick utterances can never both create an appointment
+  private static queue(session: CallTriageSession, patient: PatientRecord): void {
+    const previous = session.booking || Promise.resolve();
+    session.booking = previous
+      .then(() => this.bookOrUpdate(session, patient))
+      .catch(error => console.error('Call triage booking failed:', error));
+  }
+
+  private static async bookOrUpdate(session: CallTriageSession, patient: PatientRecord): Promise<void> {
+    const assessment = session.assessment;
+    if (!assessment.isEmergency || session.escalated) {
+      return;
+    }
+
+    if (!session.appointmentId) {
+      const appointment = await DentalService.bookEmergencyAppointmentToAirtable(assessment, patient);
+      session.appointmentId = appointment.id;
+      session.bookedUrgency = assessment.urgencyLevel;
+      return;
+    }
+
+    if (URGENCY_RANK[assessment.urgencyLevel] > URGENCY_RANK[session.bookedUrgency || 'low']) {
+      await this.escalateAppointment(session, assessment, patient);
+    }
+  }
+
+  // Severity went up after booking: refresh the clinical details and move the visit earlier when possible
+  private static async escalateAppointment(
+    session: CallTriageSession,
+    assessment: TriageAssessment,
+    patient: PatientRecord
+  ): Promise<void> {
+    const updates: Partial<AppointmentRecord> = {
+      symptoms: SymptomExtractor.summarize(assessment.details),
+      painLevel: assessment.painLevel,
+      notes: `Urgency raised from ${session.bookedUrgency} to ${assessment.urgencyLevel} during the call`
+    };
+
+    const leadHours = triageConfig.bookingLeadHours[assessment.urgencyLevel];
+    const slot = await SchedulingEngine.findFirstOpenSlot({
+      procedure: 'emergency',
+      earliest: new Date(Date.now() + leadHours * 60 * 60 * 1000)
+    });
+
+    const current = await airtableService.getAppointment(session.appointmentId!);
+    const currentStart = current
+      ? ClinicTime.clinicTimeToDate(current.appointmentDate, current.appointmentTime)
+      : null;
+
+    // Moves go through the engine's re-check, like any booking; if the slot was taken meanwhile only the details change
+    let moved = false;
+    if (slot && current && currentStart && slot.start < currentStart) {
+      try {
+        await SchedulingEngine.moveToSlot(current, slot, { ...updates, remindersSent: 0, extraRemindersSent: 0 });
+        moved = true;
+      } catch (error) {
+        console.warn('Earlier emergency slot was taken before the move:', error);
+      }
+    }
+
+    if (!moved) {
+      await airtableService.updateAppointment(session.appointmentId!, updates);
+    }
+    session.bookedUrgency = assessment.urgencyLevel;
+
+    if (slot && moved) {
+      const message = TemplateEngine.renderText(
+        'emergency_moved_up',
+        { date: slot.start, time: slot.start, provider: slot.provider },
+        { language: patient.preferredLanguage }
+      );
+      DentalService.sendTextMessage(patient.phone, message, 'emergency');
+    }
+
+    console.log('Emergency appointment updated for higher urgency:', {
+      appointmentId: session.appointmentId,
+      urgencyLevel: assessment.urgencyLevel,
+      moved
+    });
+  }
+
+  private static getSession(callId: string): CallTriageSession {
+    let session = this.sessions.get(callId);
+    if (!session) {
+      session = {
+        callId,
+        assessment: EmergencyTriage.analyzeEmergency(''),
+        awaitingIdentity: false,
+        escalated: false,
+        utterances: [],
+        identityListener: false
+      };
+      this.sessions.set(callId, session);
+    }
+    return session;
+  }
+
+  private static toState(session: CallTriageSession): CallTriageState {
+    return {
+      callId: session.callId,
+      assessment: session.assessment,
+      appointmentId: session.appointmentId,
+      bookedUrgency: session.bookedUrgency,
+      awaitingIdentity: session.awaitingIdentity,
+      escalated: session.escalated
+    };
+  }
+}
@@ -1,5 +1,16 @@
-import { procedureConfig, emergencyKeywords, recallSettings } from '../config/dental';
-import { airtableService } from './airtableService';
+import { procedureConfig, emergencyKeywords, recallCatalog, recallSettings } from '../config/dental';
+import { airtableService, AppointmentRecord, PatientRecord } from './airtableService';
+import { SchedulingEngine } from './schedulingEngine';
+import { EmergencyTriage, TriageAssessment } from './emergencyTriage';
+import { EmergencyEscalation } from './emergencyEscalation';
+import { SymptomExtractor } from './symptomExtractor';
+import { ClinicTime } from '../utils/clinicTime';
+import { OutboundQueue, OutboundDeliveryResult } from './outboundQueue';
+import { TextMatching } from '../utils/textMatching';
+import { TemplateEngine } from './templateEngine';
+import { RecallAutomator } from './recallAutomator';
+
+export type EmergencyPatient = Pick<PatientRecord, 'patientName' | 'phone' | 'preferredLanguage'>;
 
 export class DentalService {
   private static initialized = false;
@@ -30,8 +41,8 @@ export class DentalService {
       }
 
       // Validate specific configuration properties
-      if (!recallSettings.intervals || typeof recallSettings.intervals !== 'object') {
-        throw new Error('recallSettings.intervals is missing or invalid');
+      if (!recallCatalog || typeof recallCatalog !== 'object') {
+        throw new Error('recallCatalog is missing or invalid');
       }
 
       // Validate emergency keywords are strings
@@ -40,6 +51,16 @@ export class DentalService {
         throw new Error(`Invalid emergency keywords found: ${invalidKeywords.join(', ')}`);
       }
 
+      const recallProblems = RecallAutomator.validateCatalog();
+      if (recallProblems.length > 0) {
+        throw new Error(`Recall catalog is inconsistent: ${recallProblems.join('; ')}`);
+      }
+
+      const templateProblems = TemplateEngine.validateTemplates();
+      if (templateProblems.length > 0) {
+        throw new Error(`Message templates are inconsistent: ${templateProblems.join('; ')}`);
+      }
+
       this.initialized = true;
       console.log('DentalService initialized successfully');
       return true;
@@ -78,8 +99,8 @@ export class DentalService {
     logMethod(`DentalService [${severity.toUpperCase()}] [${context}]:`, error);
   }
 
-  // Enhanced recall system with comprehensive validation and error handling
-  static scheduleRecall(procedure: string): number {
+  // Recall interval in months from recallCatalog; null when the procedure starts no recall or is not recognised (logged)
+  static scheduleRecall(procedure: string): number | null {
     try {
       if (!this.initialized && !this.initialize()) {
         throw new Error('Service not properly initialized');
@@ -94,34 +115,30 @@ export class DentalService {
         throw new Error('Procedure cannot be empty');
       }
 
-      const intervals = recallSettings?.intervals;
-      if (!intervals) {
-        throw new Error('Recall intervals not configured');
+      const recallType = RecallAutomator.getRecallType(normalizedProcedure);
+      if (recallType) {
+        return recallCatalog[recallType].interval;
       }
 
-      const interval = intervals[normalizedProcedure as keyof typeof intervals];
-      if (interval === undefined) {
-        console.warn(`No specific interval for procedure: ${procedure}, using default`);
-        this.logError('scheduleRecall', `Unknown procedure: ${procedure}`, 'low');
-        return 6; // Default 6 months
-      }
-
-      // Validate interval is a positive number
-      if (typeof interval !== 'number' || interval <= 0) {
-        throw new Error(`Invalid interval for procedure ${procedure}: ${interval}`);
+      const resolved = SchedulingEngine.resolveProcedure(normalizedProcedure);
+      if (resolved && (recallSettings.noRecallProcedures as readonly string[]).includes(resolved)) {
+        return null;
       }
 
-      return interval;
+      this.logError('scheduleRecall', `Unknown procedure: ${procedure} - add it to recallCatalog to schedule recalls`, 'medium');
+      return null;
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error in scheduleRecall';
       this.logError('scheduleRecall', errorMessage, 'medium');
-      return 6; // Safe default
+      return null;
     }
   }
 
-  // Enhanced emergency triage with comprehensive validation and safety checks
-  static handleEmergency(utterance: string): boolean {
+  // Enhanced emergency triage with comprehensive validation and safety checks.
+  // Books only when the caller's confirmed patient record is supplied - never with placeholder identities.
+  // Red-flag presentations are escalated straight away and never booked.
+  static handleEmergency(utterance: string, patient?: EmergencyPatient, callId?: string): boolean {
     try {
       if (!this.initialized && !this.initialize()) {
         throw new Error('Service not properly initialized');
@@ -143,35 +160,28 @@ export class DentalService {
         return false;
       }
 
-      // Enhanced keyword matching with fuzzy logic
-      const keywordMatches = emergencyKeywords.filter(keyword => {
-        try {
-          if (typeof keyword !== 'string') {
-            console.warn(`Invalid keyword type: ${typeof keyword}`);
-            return false;
-          }
-          
-          // Direct substring match
-          if (cleanUtterance.includes(keyword.toLowerCase())) {
-            return true;
-          }
-          
-          // Fuzzy matching for common misspellings
-          const fuzzyMatch = this.fuzzyMatch(cleanUtterance, keyword.toLowerCase());
-          return fuzzyMatch > 0.8;
-          
-        } catch (regexError) {
-          console.warn(`Error processing keyword: ${keyword}`, regexError);
-          return cleanUtterance.includes(keyword.toLowerCase());
-        }
-      });
-      
-      const isEmergency = keywordMatches.length > 0;
+      // Same assessment every other entry point uses
+      const assessment = EmergencyTriage.analyzeEmergency(cleanUtterance);
+      const isEmergency = assessment.isEmergency;
       
+      if (EmergencyEscalation.requiresEscalation(assessment)) {
+        EmergencyEscalation.escalate(assessment, { callId, utterance: cleanUtterance, patient }).catch(error => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown escalation error';
+          this.logError('Emergency escalation', errorMessage, 'high');
+        });
+        return true;
+      }
+
       if (isEmergency) {
+        if (!patient) {
+          console.log('Emergency detected - booking deferred until caller identity is confirmed');
+          return true;
+        }
+
         try {
           // Enhanced emergency response with Airtable integration
-          this.bookEmergencyAppointmentToAirtable(cleanUtterance, keywordMatches);
+          // Errors are logged inside; the caller still gets the emergency response
+          this.bookEmergencyAppointmentToAirtable(assessment, patient).catch(() => undefined);
           console.log('Emergency protocol activated successfully');
           return true;
         } catch (emergencyError) {
@@ -193,69 +203,24 @@ export class DentalService {
   // Enhanced fuzzy matching algorithm
   private static fuzzyMatch(str1: string, str2: string): number {
     try {
-      if (!str1 || !str2) return 0;
-      
-      const longer = str1.length > str2.length ? str1 : str2;
-      const shorter = str1.length > str2.length ? str2 : str1;
-      
-      if (longer.length === 0) return 1;
-      
-      const editDistance = this.levenshteinDistance(longer, shorter);
-      return (longer.length - editDistance) / longer.length;
+      return TextMatching.similarity(str1, str2);
     } catch (error) {
       console.warn('Error in fuzzy matching:', error);
       return 0;
     }
   }
 
-  // Levenshtein distance calculation for fuzzy matching
-  private static levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-    
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + indicator
-        );
-      }
-    }
-    
-    return matrix[str2.length][str1.length];
-  }
-
   // Enhanced emergency booking with Airtable integration
-  private static async bookEmergencyAppointmentToAirtable(utterance: string, keywords: string[]): Promise<void> {
+  static async bookEmergencyAppointmentToAirtable(assessment: TriageAssessment, patient: EmergencyPatient): Promise<AppointmentRecord> {
     try {
-      // Determine urgency level based on keywords
-      const highUrgencyKeywords = ['unbearable', 'excruciating', 'severe', 'can\'t sleep', 'bleeding'];
-      const urgencyLevel = keywords.some(keyword => 
-        highUrgencyKeywords.some(urgent => keyword.includes(urgent))
-      ) ? 'high' : 'medium';
-      
-      // Determine pain level
-      let painLevel = 5; // default moderate
-      if (keywords.some(k => ['unbearable', 'excruciating', 'worst'].some(severe => k.includes(severe)))) {
-        painLevel = 9;
-      } else if (keywords.some(k => ['bad', 'hurts', 'painful'].some(moderate => k.includes(moderate)))) {
-        painLevel = 6;
-      } else if (keywords.some(k => ['slight', 'little', 'minor'].some(mild => k.includes(mild)))) {
-        painLevel = 3;
-      }
-
-      // For demo purposes, we'll use placeholder data
-      // In a real implementation, this would come from the voice conversation
+      const { urgencyLevel, painLevel } = assessment;
+
       const emergencyData = {
-        patientName: 'Emergency Patient', // This would be extracted from conversation
-        phone: '555-EMERGENCY', // This would be extracted from conversation
-        symptoms: keywords.join(', '),
+        patientName: patient.patientName,
+        phone: patient.phone,
+        symptoms: SymptomExtractor.summarize(assessment.details),
         painLevel,
-        urgencyLevel: urgencyLevel as 'high' | 'medium' | 'low'
+        urgencyLevel
       };
 
       // Create emergency appointment in Airtable
@@ -270,11 +235,16 @@ export class DentalService {
 
       // Send emergency SMS with appointment details
       this.sendEmergencySMS({
-        appointmentTime: new Date(`${result.appointment.appointmentDate}T${result.appointment.appointmentTime}`),
+        appointmentTime: ClinicTime.clinicTimeToDate(result.appointment.appointmentDate, result.appointment.appointmentTime),
         urgencyLevel,
-        patientInstructions: this.generateEmergencyInstructions(keywords),
-        patientName: emergencyData.patientName
+        recommendedWaitHours: assessment.recommendedWaitHours,
+        patientInstructions: this.generateEmergencyInstructions(assessment, patient.preferredLanguage),
+        patientName: emergencyData.patientName,
+        language: patient.preferredLanguage,
+        to: patient.phone
       });
+
+      return result.appointment;
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error in Airtable emergency booking';
@@ -283,93 +253,9 @@ export class DentalService {
     }
   }
 
-  // Enhanced emergency booking with comprehensive validation
-  private static bookEmergencyAppointment(utterance: string, keywords: string[]): {
-    success: boolean;
-    appointmentDetails?: any;
-    error?: string;
-  } {
-    try {
-      const emergencySlot = new Date();
-      
-      // Validate date operations
-      if (isNaN(emergencySlot.getTime())) {
-        throw new Error('Invalid date for emergency appointment');
-      }
-      
-      // Determine urgency level based on keywords
-      const highUrgencyKeywords = ['unbearable', 'excruciating', 'severe', 'can\'t sleep', 'bleeding'];
-      const urgencyLevel = keywords.some(keyword => 
-        highUrgencyKeywords.some(urgent => keyword.includes(urgent))
-      ) ? 'high' : 'medium';
-      
-      // Set appointment time based on urgency
-      const hoursToAdd = urgencyLevel === 'high' ? 2 : 6;
-      emergencySlot.setHours(emergencySlot.getHours() + hoursToAdd);
-      
-      // Validate the resulting date
-      if (isNaN(emergencySlot.getTime())) {
-        throw new Error('Failed to calculate emergency appointment time');
-      }
-
-      // Validate business hours (8 AM - 8 PM)
-      const hour = emergencySlot.getHours();
-      if (hour < 8 || hour > 20) {
-        // Adjust to next business day
-        emergencySlot.setDate(emergencySlot.getDate() + 1);
-        emergencySlot.setHours(8, 0, 0, 0);
-      }
-
-      const appointmentDetails = {
-        appointmentTime: emergencySlot,
-        urgencyLevel,
-        symptoms: keywords,
-        estimatedDuration: 60,
-        priority: 'emergency',
-        patientInstructions: this.generateEmergencyInstructions(keywords)
-      };
-      
-      console.log('Emergency appointment booked for:', emergencySlot.toISOString());
-      
-      // Enhanced integration point for dental practice management system
-      this.notifyPracticeManagementSystem({
-        type: 'emergency_booking',
-        ...appointmentDetails
-      });
-      
-      return { success: true, appointmentDetails };
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error in emergency booking';
-      this.logError('bookEmergencyAppointment', errorMessage, 'high');
-      return { success: false, error: errorMessage };
-    }
-  }
-
-  // Generate contextual emergency instructions
-  private static generateEmergencyInstructions(keywords: string[]): string[] {
-    const instructions: string[] = [];
-    
-    if (keywords.some(k => k.includes('pain'))) {
-      instructions.push('Take 600mg ibuprofen + 500mg acetaminophen for pain relief');
-      instructions.push('Apply cold compress for 15 minutes on, 15 minutes off');
-    }
-    
-    if (keywords.some(k => k.includes('swollen'))) {
-      instructions.push('Keep head elevated when lying down');
-      instructions.push('Avoid hot compresses on swollen areas');
-    }
-    
-    if (keywords.some(k => k.includes('bleeding'))) {
-      instructions.push('Apply gentle pressure with clean gauze');
-      instructions.push('Avoid spitting or rinsing vigorously');
-    }
-    
-    // Default instructions
-    instructions.push('Avoid chewing on affected area');
-    instructions.push('Rinse gently with warm salt water');
-    
-    return instructions;
+  // Generate contextual emergency instructions in the patient's language
+  private static generateEmergencyInstructions(assessment: TriageAssessment, language?: string): string[] {
+    return EmergencyTriage.getCareInstructions(assessment, language);
   }
 
   // Enhanced SMS sending with validation and formatting
@@ -384,33 +270,22 @@ export class DentalService {
         throw new Error('Invalid appointment time for SMS');
       }
 
-      let message = `
-🚨 ELITE DENTAL EMERGENCY RESPONSE
+      const instructions: string[] = Array.isArray(appointmentDetails.patientInstructions)
+        ? appointmentDetails.patientInstructions
+        : [];
 
-Your emergency appointment is CONFIRMED.
-📅 ${appointmentTime.toLocaleDateString()} at ${appointmentTime.toLocaleTimeString()}
-
-IMMEDIATE CARE INSTRUCTIONS:
-`;
-
-      // Add specific instructions based on symptoms
-      if (appointmentDetails.patientInstructions && Array.isArray(appointmentDetails.patientInstructions)) {
-        appointmentDetails.patientInstructions.forEach((instruction: string) => {
-          message += `• ${instruction}\n`;
-        });
-      }
+      const { body, language, segments } = TemplateEngine.renderList(
+        'emergency_response',
+        { date: appointmentTime, time: appointmentTime },
+        'instructions',
+        instructions,
+        { language: appointmentDetails.language }
+      );
 
-      message += `
-📞 EMERGENCY HOTLINE: (555) 123-DENTAL
-⏰ Estimated wait: ${appointmentDetails.urgencyLevel === 'high' ? '2 hours' : '6 hours'}
+      console.log('Emergency SMS prepared:', { language, segments });
 
-Elite Dental - We're here for you 24/7
-      `.trim();
-      
-      console.log('Emergency SMS prepared:', message);
-      
       // Enhanced integration point for SMS service with validation
-      this.sendSMSMessage(message, 'emergency', appointmentDetails);
+      this.sendSMSMessage(body, 'emergency', appointmentDetails);
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error in SMS sending';
@@ -697,33 +572,17 @@ Elite Dental - We're here for you 24/7
     }
   }
 
-  // Enhanced integration points for external systems with error handling
-  private static notifyPracticeManagementSystem(data: any): void {
-    try {
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid data for PMS notification');
-      }
-
-      console.log('Notifying practice management system:', data);
-      
-      // Enhanced integration point for external PMS with validation
-      if (typeof window !== 'undefined') {
-        const pms = (window as any).dentalPMS;
-        if (pms && typeof pms.notify === 'function') {
-          pms.notify(data);
-        } else {
-          console.warn('Practice Management System integration not available');
-        }
-      }
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error in PMS notification';
-      this.logError('PMS notification', errorMessage, 'medium');
+  // Send a text to a specific patient phone number; resolves to null when nothing was queued
+  static sendTextMessage(to: string, message: string, type: string): Promise<OutboundDeliveryResult | null> {
+    if (!to || to.replace(/\D/g, '').length < 10) {
+      this.logError('sendTextMessage', 'Invalid recipient phone number', 'medium');
+      return Promise.resolve(null);
     }
+    return this.sendSMSMessage(message, type, { to });
   }
 
   // Enhanced SMS service with validation and retry logic
-  private static sendSMSMessage(message: string, type: string, metadata?: any): void {
+  private static async sendSMSMessage(message: string, type: string, metadata?: any): Promise<OutboundDeliveryResult | null> {
     try {
       if (!message || typeof message !== 'string' || message.trim().length === 0) {
         throw new Error('Invalid SMS message content');
@@ -733,50 +592,26 @@ Elite Dental - We're here for you 24/7
         throw new Error('Invalid SMS type');
       }
 
-      console.log(`Sending ${type} SMS:`, { 
-        messageLength: message.length,
-        type,
-        timestamp: new Date().toISOString(),
-        metadata: metadata ? Object.keys(metadata) : []
-      });
-      
-      // Enhanced integration point for SMS service with validation
-      if (typeof window !== 'undefined') {
-        const smsService = (window as any).smsService;
-        if (smsService && typeof smsService.send === 'function') {
-          smsService.send(message, type, metadata);
-        } else {
-          console.warn('SMS service integration not available - message queued for later delivery');
-          // Queue message for later delivery
-          this.queueSMSForLater(message, type, metadata);
-        }
+      const to = metadata?.to;
+      if (!to || typeof to !== 'string') {
+        throw new Error('SMS recipient missing');
       }
+
+      // The outbound queue retries with backoff and dead-letters what can never be delivered
+      const result = await OutboundQueue.send(to, message, type, metadata);
+      if (result.status === 'dead_lettered') {
+        this.logError('SMS sending', result.error || 'SMS rejected by gateway', 'medium');
+      } else if (result.status === 'queued') {
+        console.warn('SMS not delivered yet - queued for retry:', result.error);
+      } else if (result.status === 'duplicate') {
+        console.warn(`${type} SMS not sent - the same message went to this number recently`);
+      }
+      return result;
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error in SMS sending';
       this.logError('SMS sending', errorMessage, 'medium');
-    }
-  }
-
-  // SMS queuing for offline scenarios
-  private static queueSMSForLater(message: string, type: string, metadata?: any): void {
-    try {
-      const queueKey = 'dental_sms_queue';
-      const existingQueue = JSON.parse(localStorage.getItem(queueKey) || '[]');
-      
-      existingQueue.push({
-        message,
-        type,
-        metadata,
-        queuedAt: new Date().toISOString(),
-        attempts: 0
-      });
-      
-      localStorage.setItem(queueKey, JSON.stringify(existingQueue));
-      console.log('SMS queued for later delivery');
-      
-    } catch (queueError) {
-      console.error('Failed to queue SMS:', queueError);
+      return null;
     }
   }
 
@@ -816,6 +651,7 @@ Elite Dental - We're here for you 24/7
       const configurationValid = !!(
         procedureConfig && 
         emergencyKeywords && 
+        recallCatalog &&
         recallSettings &&
         typeof procedureConfig === 'object' &&
         Array.isArray(emergencyKeywords) &&
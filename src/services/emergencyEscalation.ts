@@ -0,0 +1,111 @@
+// Red-Flag Escalation for Elite Dental AI Widget
+// Life-threatening presentations get ER/911 instructions, a page to on-call staff and an escalation record - never a booking
+
+import { escalationConfig, RedFlagCondition } from '../config/dental';
+import { airtableService } from './airtableService';
+import { DentalService, EmergencyPatient } from './dentalService';
+import type { TriageAssessment } from './emergencyTriage';
+import { SymptomExtractor } from './symptomExtractor';
+import { TemplateEngine } from './templateEngine';
+
+export interface EscalationContext {
+  callId?: string;
+  utterance: string;
+  patient?: EmergencyPatient;
+}
+
+export interface EscalationRecord {
+  callId?: string;
+  conditions: RedFlagCondition[];
+  callerInstruction: string; // what the assistant must say right away
+  pagedStaff: string[];
+  patientNotified: boolean;
+  escalatedAt: Date;
+}
+
+export class EmergencyEscalation {
+  private static escalations: Map<string, EscalationRecord> = new Map();
+
+  static requiresEscalation(assessment: TriageAssessment): boolean {
+    return assessment.urgencyLevel === 'critical' && assessment.redFlags.length > 0;
+  }
+
+  static getCallerInstruction(assessment: TriageAssessment): string {
+    const conditions = assessment.redFlags.map(condition => escalationConfig.conditionLabels[condition]);
+    return `${escalationConfig.callerInstruction} (Reported: ${conditions.join('; ')}.)`;
+  }
+
+  // Page staff and record the escalation once per call; later utterances only add conditions and notify the patient
+  static async escalate(assessment: TriageAssessment, context: EscalationContext): Promise<EscalationRecord> {
+    const existing = context.callId ? this.escalations.get(context.callId) : undefined;
+
+    if (existing) {
+      const newConditions = assessment.redFlags.filter(condition => !existing.conditions.includes(condition));
+      existing.conditions.push(...newConditions);
+      existing.callerInstruction = this.getCallerInstruction({ ...assessment, redFlags: existing.conditions });
+      if (context.patient && !existing.patientNotified) {
+        existing.patientNotified = this.notifyPatient(context.patient);
+      }
+      return existing;
+    }
+
+    const escalation: EscalationRecord = {
+      callId: context.callId,
+      conditions: [...assessment.redFlags],
+      callerInstruction: this.getCallerInstruction(assessment),
+      pagedStaff: this.pageOnCallStaff(assessment, context),
+      patientNotified: context.patient ? this.notifyPatient(context.patient) : false,
+      escalatedAt: new Date()
+    };
+
+    if (context.callId) {
+      this.escalations.set(context.callId, escalation);
+    }
+
+    console.error('🚑 RED FLAG ESCALATION:', { callId: context.callId, conditions: escalation.conditions });
+
+    try {
+      await airtableService.logEmergencyEscalation({
+        callId: context.callId,
+        patientName: context.patient?.patientName,
+        phone: context.patient?.phone,
+        conditions: escalation.conditions.join(', '),
+        symptoms: SymptomExtractor.summarize(assessment.details),
+        pagedStaff: escalation.pagedStaff.join(', '),
+        escalatedAt: escalation.escalatedAt.toISOString()
+      });
+    } catch (error) {
+      // The page has already gone out; a failed record must not hold up the caller
+      console.error('Failed to record emergency escalation:', error);
+    }
+
+    return escalation;
+  }
+
+  static getEscalation(callId: string): EscalationRecord | null {
+    return this.escalations.get(callId) || null;
+  }
+
+  static endSession(callId: string): void {
+    this.escalations.delete(callId);
+  }
+
+  private static pageOnCallStaff(assessment: TriageAssessment, context: EscalationContext): string[] {
+    const conditions = assessment.redFlags.map(condition => escalationConfig.conditionLabels[condition]).join('; ');
+    const caller = context.patient
+      ? `${context.patient.patientName} (${context.patient.phone})`
+      : 'caller not yet identified';
+    const page = TemplateEngine.renderText('on_call_page', { conditions, caller });
+
+    return escalationConfig.onCallStaff.map(staff => {
+      DentalService.sendTextMessage(staff.phone, page, 'on_call_page');
+      return staff.name;
+    });
+  }
+
+  private static notifyPatient(patient: EmergencyPatient): boolean {
+    const message = TemplateEngine.renderText('red_flag_patient', {}, { language: patient.preferredLanguage });
+    DentalService.sendTextMessage(patient.phone, message, 'red_flag');
+    return true;
+  }
+}
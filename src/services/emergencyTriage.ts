@@ -1,171 +1,129 @@
-export interface EmergencyBooking {
-  type: 'URGENT';
-  maxWait: number; // hours
-  patientInfo: {
-    symptoms: string;
-    painLevel: number;
-    contactMethod: 'sms' | 'call';
-  };
-  appointmentTime: Date;
+// Emergency Triage for Elite Dental AI Widget
+// Single triage engine - every entry point (DentalService, assistant tools, useVapi) reads the same assessment
+
+import {
+  emergencyKeywords,
+  triageConfig,
+  MessageTemplate,
+  UrgencyLevel,
+  RedFlagCondition
+} from '../config/dental';
+import { SymptomExtractor, ExtractedSymptoms } from './symptomExtractor';
+import { TemplateEngine } from './templateEngine';
+
+export interface TriageAssessment {
+  isEmergency: boolean;
+  symptoms: string[]; // emergency keywords the caller currently has - negated or resolved mentions excluded
+  details: ExtractedSymptoms;
+  painLevel: number; // 0-10, 0 when no emergency
+  urgencyScore: number; // 0-100
+  urgencyLevel: UrgencyLevel;
+  redFlags: RedFlagCondition[];
+  recommendedWaitHours: number;
 }
 
 export class EmergencyTriage {
-  private static emergencyKeywords = [
-    'pain', 'broken', 'emergency', 'swollen', 'bleeding',
-    'urgent', 'hurt', 'ache', 'throbbing', 'severe',
-    'unbearable', 'excruciating', 'can\'t sleep', 'can\'t eat'
-  ];
-
-  private static painLevelKeywords = {
-    severe: ['unbearable', 'excruciating', 'worst', 'can\'t', 'crying'],
-    moderate: ['bad', 'hurts', 'painful', 'aching', 'throbbing'],
-    mild: ['slight', 'little', 'minor', 'uncomfortable']
-  };
-
-  static analyzeEmergency(utterance: string): {
-    isEmergency: boolean;
-    painLevel: number;
-    symptoms: string[];
-    urgencyScore: number;
-  } {
-    const lowerUtterance = utterance.toLowerCase();
-    
-    // Check for emergency keywords
-    const foundKeywords = this.emergencyKeywords.filter(keyword =>
-      lowerUtterance.includes(keyword)
-    );
+  static analyzeEmergency(utterance: string): TriageAssessment {
+    const lowerUtterance = (utterance || '').trim().toLowerCase();
+
+    const details = SymptomExtractor.extract(lowerUtterance, emergencyKeywords, triageConfig.fuzzyMatchThreshold);
+    const redFlags = this.findRedFlags(lowerUtterance);
+    const foundKeywords = details.symptoms;
+
+    const isEmergency = foundKeywords.length > 0 || redFlags.length > 0;
 
-    const isEmergency = foundKeywords.length > 0;
-    
     if (!isEmergency) {
-      return { isEmergency: false, painLevel: 0, symptoms: [], urgencyScore: 0 };
+      return {
+        isEmergency: false,
+        symptoms: [],
+        details,
+        painLevel: 0,
+        urgencyScore: 0,
+        urgencyLevel: 'low',
+        redFlags: [],
+        recommendedWaitHours: triageConfig.recommendedWaitHours.low
+      };
     }
 
-    // Determine pain level (1-10 scale)
-    let painLevel = 5; // default moderate
-    
-    if (this.painLevelKeywords.severe.some(word => lowerUtterance.includes(word))) {
-      painLevel = 9;
-    } else if (this.painLevelKeywords.moderate.some(word => lowerUtterance.includes(word))) {
-      painLevel = 6;
-    } else if (this.painLevelKeywords.mild.some(word => lowerUtterance.includes(word))) {
-      painLevel = 3;
-    }
+    const painLevel = this.assessPainLevel(details);
 
     // Calculate urgency score (0-100)
-    let urgencyScore = foundKeywords.length * 15;
-    urgencyScore += painLevel * 8;
-    
-    // Time-sensitive keywords boost urgency
-    if (lowerUtterance.includes('since last night') || lowerUtterance.includes('all night')) {
-      urgencyScore += 20;
+    let urgencyScore = foundKeywords.length * triageConfig.scoring.keywordWeight;
+    urgencyScore += painLevel * triageConfig.scoring.painWeight;
+
+    // Time-sensitive phrases boost urgency
+    if (details.duration || triageConfig.prolongedSymptomPhrases.some(phrase => lowerUtterance.includes(phrase))) {
+      urgencyScore += triageConfig.scoring.prolongedSymptomBoost;
     }
-    
+
     urgencyScore = Math.min(urgencyScore, 100);
 
+    const urgencyLevel = this.getUrgencyLevel(urgencyScore, foundKeywords, redFlags);
+
     return {
       isEmergency: true,
+      symptoms: [...foundKeywords],
+      details,
       painLevel,
-      symptoms: foundKeywords,
-      urgencyScore
-    };
-  }
-
-  static async bookEmergencyAppointment(analysis: ReturnType<typeof EmergencyTriage.analyzeEmergency>): Promise<EmergencyBooking> {
-    const appointmentTime = new Date();
-    
-    // High urgency: within 2 hours
-    // Medium urgency: within 6 hours  
-    // Lower urgency: within 24 hours
-    const hoursToAdd = analysis.urgencyScore > 80 ? 2 : 
-                      analysis.urgencyScore > 50 ? 6 : 24;
-    
-    appointmentTime.setHours(appointmentTime.getHours() + hoursToAdd);
-
-    const booking: EmergencyBooking = {
-      type: 'URGENT',
-      maxWait: hoursToAdd,
-      patientInfo: {
-        symptoms: analysis.symptoms.join(', '),
-        painLevel: analysis.painLevel,
-        contactMethod: analysis.urgencyScore > 70 ? 'call' : 'sms'
-      },
-      appointmentTime
+      urgencyScore,
+      urgencyLevel,
+      redFlags,
+      recommendedWaitHours: triageConfig.recommendedWaitHours[urgencyLevel]
     };
-
-    // Send immediate triage guide
-    await this.sendSMSTriageGuide(analysis);
-    
-    console.log(`🚨 EMERGENCY BOOKED: ${hoursToAdd}h wait, Pain Level: ${analysis.painLevel}/10`);
-    
-    return booking;
   }
 
-  private static async sendSMSTriageGuide(analysis: ReturnType<typeof EmergencyTriage.analyzeEmergency>): Promise<void> {
-    let triageMessage = `
-🚨 ELITE DENTAL EMERGENCY RESPONSE
-
-Your emergency appointment is CONFIRMED.
+  // Home-care advice for the patient's symptoms, most important first
+  static getCareInstructions(analysis: TriageAssessment, language?: string): string[] {
+    const templates: MessageTemplate[] = [];
 
-IMMEDIATE CARE INSTRUCTIONS:
-`;
-
-    // Pain-specific guidance
+    if (analysis.symptoms.includes('bleeding')) {
+      templates.push('care_bleeding');
+    }
+    if (analysis.symptoms.includes('swollen')) {
+      templates.push('care_swelling');
+    }
     if (analysis.painLevel >= 7) {
-      triageMessage += `
-🔴 SEVERE PAIN PROTOCOL:
-• Take 600mg ibuprofen + 500mg acetaminophen
-• Apply cold compress 15min on/off
-• Avoid hot/cold foods
-• Sleep with head elevated
-`;
+      templates.push('care_severe_pain');
     } else if (analysis.painLevel >= 4) {
-      triageMessage += `
-🟡 MODERATE PAIN PROTOCOL:
-• Take 400mg ibuprofen every 6 hours
-• Rinse with warm salt water
-• Avoid chewing on affected side
-`;
+      templates.push('care_moderate_pain');
     }
+    templates.push('care_general');
 
-    // Symptom-specific guidance
-    if (analysis.symptoms.includes('swollen')) {
-      triageMessage += `
-🔵 SWELLING PROTOCOL:
-• Apply ice pack to face (not directly on skin)
-• Keep head elevated when lying down
-• Avoid hot compresses
-`;
-    }
+    return templates.map(template => TemplateEngine.renderText(template, {}, { language }));
+  }
 
-    if (analysis.symptoms.includes('bleeding')) {
-      triageMessage += `
-🔴 BLEEDING PROTOCOL:
-• Apply gentle pressure with clean gauze
-• Avoid spitting or rinsing vigorously
-• If bleeding doesn't stop in 30min, call immediately
-`;
+  // Determine pain level (1-10 scale) - a number the caller gives beats descriptive words
+  private static assessPainLevel(details: ExtractedSymptoms): number {
+    if (details.painRating !== undefined) {
+      return details.painRating;
     }
+    if (details.painDescriptor) {
+      return triageConfig.painScores[details.painDescriptor];
+    }
+    return triageConfig.defaultPainLevel;
+  }
 
-    triageMessage += `
-📞 EMERGENCY HOTLINE: (555) 123-DENTAL
-⏰ Your appointment: ${analysis.urgencyScore > 80 ? 'Within 2 hours' : 'Within 24 hours'}
-
-Elite Dental - We're here for you 24/7
-    `.trim();
+  private static getUrgencyLevel(urgencyScore: number, keywords: string[], redFlags: RedFlagCondition[]): UrgencyLevel {
+    const highUrgencyKeyword = keywords.some(keyword =>
+      triageConfig.highUrgencyKeywords.some(urgent => keyword.includes(urgent))
+    );
 
-    console.log('📱 Emergency SMS Triage Guide sent:', triageMessage);
-    // SMS service integration would go here
+    // Red flags are a tier of their own - emergency room, not the dental schedule
+    if (redFlags.length > 0) {
+      return 'critical';
+    }
+    if (highUrgencyKeyword || urgencyScore > triageConfig.urgencyThresholds.high) {
+      return 'high';
+    }
+    if (urgencyScore > triageConfig.urgencyThresholds.medium) {
+      return 'medium';
+    }
+    return 'low';
   }
 
-  static handleEmergencyUtterance(utterance: string): boolean {
-    const analysis = this.analyzeEmergency(utterance);
-    
-    if (analysis.isEmergency) {
-      this.bookEmergencyAppointment(analysis);
-      return true;
-    }
-    
-    return false;
+  private static findRedFlags(lowerUtterance: string): RedFlagCondition[] {
+    return (Object.keys(triageConfig.redFlagConditions) as RedFlagCondition[]).filter(condition =>
+      SymptomExtractor.findActive(lowerUtterance, triageConfig.redFlagConditions[condition]).length > 0
+    );
   }
-}
\ No newline at end of file
+}
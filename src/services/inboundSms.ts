@@ -0,0 +1,378 @@
+// Inbound SMS Processor for Elite Dental AI Widget
+// Acts on patient replies - CONFIRM, CANCEL, RESCHEDULE, STOP/HELP and free-text day/time requests - and texts back.
+// Replies are polled from the SMS proxy by the background leader tab; each message is handled once
+
+import { communicationConfig, integrationConfig, procedureConfig, MessageTemplate } from '../config/dental';
+import { airtableService, AppointmentRecord, RecallRecord, WaitlistRecord } from './airtableService';
+import { SchedulingEngine, AppointmentSlot } from './schedulingEngine';
+import { AppointmentScheduler } from './appointmentScheduler';
+import { NoShowDefender } from './noShowDefender';
+import { SlotOfferCascade } from './slotOffers';
+import { OutboundQueue } from './outboundQueue';
+import { SmsMessenger } from './smsMessenger';
+import { TemplateEngine, TemplateValues } from './templateEngine';
+import { ClinicTime } from '../utils/clinicTime';
+import { RequestedTime, RequestedTimeParser } from '../utils/requestedTime';
+
+export type InboundIntent =
+  | 'confirm'
+  | 'cancel'
+  | 'decline'
+  | 'reschedule'
+  | 'date_request'
+  | 'help'
+  | 'stop'
+  | 'start'
+  | 'unknown';
+
+export interface InboundSms {
+  from: string;
+  body: string;
+  messageId?: string;
+}
+
+export interface ParsedReply {
+  intent: InboundIntent;
+  keyword: string; // first word, upper-cased
+  requested?: RequestedTime;
+}
+
+export interface InboundSmsResult {
+  intent: InboundIntent;
+  requested?: RequestedTime;
+  updated: Array<{ table: 'appointments' | 'waitlist' | 'recalls'; id: string; status: string }>;
+  reply?: string;
+}
+
+const CURSOR_KEY = 'dental_sms_inbound_cursor';
+const HANDLED_KEY = 'dental_sms_inbound_handled';
+const MAX_HANDLED_IDS = 500;
+
+export class InboundSmsProcessor {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static polling: Promise<number> | null = null;
+  private static memoryStore: Map<string, string> = new Map(); // used where localStorage is unavailable
+
+  // Fetch replies since the last poll and handle each one not seen before; returns how many were handled
+  static poll(): Promise<number> {
+    if (!this.polling) {
+      this.polling = this.pollInbound().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Inbound SMS poll failed:', error));
+    }, communicationConfig.sms.inboundPollIntervalMs);
+
+    this.poll().catch(error => console.error('Inbound SMS poll failed:', error));
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static parse(body: string, now: Date = new Date()): ParsedReply {
+    const text = (body || '').trim();
+    const whole = text.toUpperCase();
+    const keyword = whole.replace(/[^\p{L}\s]/gu, ' ').trim().split(/\s+/)[0] || '';
+    const requested = RequestedTimeParser.parse(text, now) || undefined;
+    const { optOutKeywords, optInKeywords } = integrationConfig.apis.sms;
+    const replyKeywords = communicationConfig.sms.replyKeywords;
+
+    // Carrier keywords only count when they are the whole message
+    if ((optOutKeywords as readonly string[]).includes(whole)) {
+      return { intent: 'stop', keyword };
+    }
+
+    const intent = (Object.keys(replyKeywords) as Array<keyof typeof replyKeywords>)
+      .find(key => (replyKeywords[key] as readonly string[]).includes(keyword));
+    if (intent) {
+      return { intent, keyword, requested };
+    }
+
+    if ((optInKeywords as readonly string[]).includes(whole)) {
+      return { intent: 'start', keyword };
+    }
+    if (requested) {
+      return { intent: 'date_request', keyword, requested };
+    }
+    return { intent: 'unknown', keyword };
+  }
+
+  static async handle(message: InboundSms): Promise<InboundSmsResult> {
+    const parsed = this.parse(message.body);
+    const result: InboundSmsResult = { intent: parsed.intent, requested: parsed.requested, updated: [] };
+
+    // YES is both an opt-in keyword and a confirmation; from an opted-out number it re-subscribes
+    if (parsed.intent === 'confirm' && SmsMessenger.isOptedOut(message.from) &&
+        (integrationConfig.apis.sms.optInKeywords as readonly string[]).includes(parsed.keyword)) {
+      result.intent = 'start';
+    }
+
+    console.log(`Inbound SMS from ${message.from}: ${result.intent}`);
+
+    const patient = await airtableService.findPatientByPhone(message.from.replace(/\D/g, '').slice(-10));
+    const language = patient?.preferredLanguage;
+
+    try {
+      switch (result.intent) {
+        case 'stop':
+          // The carrier sends the opt-out confirmation; nothing more may be texted to this number
+          SmsMessenger.handleOptOutReply(message.from, message.body);
+          return result;
+        case 'start':
+          SmsMessenger.handleOptOutReply(message.from, parsed.keyword);
+          return await this.reply(message.from, result, 'sms_resubscribed', {}, language);
+        case 'help':
+          return await this.reply(message.from, result, 'sms_help', {}, language);
+        case 'confirm':
+          return await this.handleConfirm(message.from, result, language);
+        case 'cancel':
+          return await this.handleCancel(message.from, result, language);
+        case 'decline':
+          return await this.handleDecline(message.from, result, language);
+        case 'reschedule':
+        case 'date_request':
+          return await this.handleReschedule(message.from, result, language);
+        default:
+          return await this.reply(message.from, result, 'sms_unrecognized', {}, language);
+      }
+    } catch (error) {
+      console.error('Inbound SMS handling failed:', error);
+      return this.reply(message.from, result, 'sms_error', {}, language);
+    }
+  }
+
+  // A waitlist offer asks for CONFIRM, so a pending offer wins over an existing appointment
+  private static async handleConfirm(from: string, result: InboundSmsResult, language?: string): Promise<InboundSmsResult> {
+    const entry = await this.findHeldOffer(from);
+    if (entry) {
+      const acceptance = await SlotOfferCascade.accept(entry);
+      if (acceptance?.appointment) {
+        const { appointment } = acceptance;
+        result.updated.push({ table: 'waitlist', id: entry.id!, status: 'scheduled' });
+        result.updated.push({ table: 'appointments', id: appointment.id!, status: appointment.status });
+        const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+        return this.reply(from, result, 'appointment_booked', {
+          procedure: appointment.procedure,
+          date: start,
+          time: start,
+          provider: appointment.provider
+        }, language);
+      }
+      // The hold ran out or the slot was taken before the reply arrived
+      return this.reply(from, result, 'waitlist_offer_expired', { name: entry.patientName }, language);
+    }
+
+    const appointment = await this.findNextAppointment(from);
+    if (!appointment) {
+      // Still waiting but nothing held - most likely a late reply to an offer that moved on
+      const [waiting] = await airtableService.findWaitlistByPhone(from);
+      return waiting
+        ? this.reply(from, result, 'waitlist_offer_expired', { name: waiting.patientName }, language)
+        : this.reply(from, result, 'sms_no_match', {}, language);
+    }
+
+    if (appointment.status !== 'confirmed') {
+      await airtableService.updateAppointment(appointment.id!, { status: 'confirmed' });
+      result.updated.push({ table: 'appointments', id: appointment.id!, status: 'confirmed' });
+    }
+    const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+    return this.reply(from, result, 'appointment_confirmation', { date: start, time: start }, language);
+  }
+
+  private static async handleCancel(from: string, result: InboundSmsResult, language?: string): Promise<InboundSmsResult> {
+    const held = await this.findHeldOffer(from);
+    if (held && await SlotOfferCascade.decline(held, true)) {
+      result.updated.push({ table: 'waitlist', id: held.id!, status: 'expired' });
+      return this.reply(from, result, 'waitlist_removed', {}, language);
+    }
+
+    const appointment = await this.findNextAppointment(from);
+    if (appointment) {
+      await NoShowDefender.handleCancellation(appointment.id!, 'Patient replied CANCEL by SMS');
+      result.updated.push({ table: 'appointments', id: appointment.id!, status: 'cancelled' });
+      const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+      return this.reply(from, result, 'cancellation_notice', { date: start }, language);
+    }
+
+    const [entry] = await airtableService.findWaitlistByPhone(from);
+    if (entry) {
+      await this.updateWaitlist(result, entry, { status: 'expired', notes: this.appendNote(entry.notes, 'Left waitlist by SMS') });
+      return this.reply(from, result, 'waitlist_removed', {}, language);
+    }
+
+    return this.reply(from, result, 'sms_no_match', {}, language);
+  }
+
+  private static async handleDecline(from: string, result: InboundSmsResult, language?: string): Promise<InboundSmsResult> {
+    const held = await this.findHeldOffer(from);
+    if (!held || !await SlotOfferCascade.decline(held)) {
+      return this.reply(from, result, 'sms_unrecognized', {}, language);
+    }
+
+    result.updated.push({ table: 'waitlist', id: held.id!, status: 'active' });
+    return this.reply(from, result, 'waitlist_offer_declined', { name: held.patientName }, language);
+  }
+
+  // Move the next appointment, or book the outstanding recall, into the opening closest to the requested time
+  private static async handleReschedule(from: string, result: InboundSmsResult, language?: string): Promise<InboundSmsResult> {
+    const appointment = await this.findNextAppointment(from);
+    const recall = appointment ? undefined : (await airtableService.findRecallsByPhone(from))[0];
+
+    if (!appointment && !recall) {
+      return this.reply(from, result, 'sms_no_match', {}, language);
+    }
+    if (!result.requested) {
+      return this.reply(from, result, 'reschedule_prompt', {}, language);
+    }
+
+    const procedure = appointment?.procedure || SchedulingEngine.resolveProcedure(recall!.recallType) || 'cleaning';
+    const slot = await AppointmentScheduler.findSlotNear(procedure, result.requested.date, result.requested.time);
+    if (!slot) {
+      const day = ClinicTime.clinicTimeToDate(result.requested.date, '12:00');
+      return this.reply(from, result, 'reschedule_unavailable', { date: day }, language);
+    }
+
+    if (appointment) {
+      await AppointmentScheduler.moveAppointment(appointment, slot, 'Rescheduled by SMS');
+      result.updated.push({ table: 'appointments', id: appointment.id!, status: 'scheduled' });
+    } else {
+      await this.bookRecall(result, recall!, procedure, slot);
+    }
+
+    return this.reply(from, result, 'appointment_booked', {
+      procedure,
+      date: slot.start,
+      time: slot.start,
+      provider: slot.provider
+    }, language);
+  }
+
+  private static async bookRecall(
+    result: InboundSmsResult,
+    recall: RecallRecord,
+    procedure: string,
+    slot: AppointmentSlot
+  ): Promise<void> {
+    const configured = SchedulingEngine.resolveProcedure(procedure);
+    const appointment = await SchedulingEngine.bookSlot(slot, {
+      patientId: recall.patientId,
+      patientName: recall.patientName,
+      phone: recall.phone,
+      procedure,
+      status: 'scheduled',
+      priority: 'routine',
+      notes: `Booked by SMS reply to ${recall.recallType} recall`,
+      estimatedCost: configured ? procedureConfig[configured].cost : recall.estimatedRevenue,
+      remindersSent: 0,
+      createdBy: 'patient'
+    });
+    result.updated.push({ table: 'appointments', id: appointment.id!, status: 'scheduled' });
+
+    await airtableService.updateRecall(recall.id!, {
+      status: 'scheduled',
+      appointmentId: appointment.id,
+      lastContactDate: ClinicTime.getClinicDateParts().date
+    });
+    result.updated.push({ table: 'recalls', id: recall.id!, status: 'scheduled' });
+  }
+
+  private static async findHeldOffer(from: string): Promise<WaitlistRecord | undefined> {
+    const entries = await airtableService.findWaitlistByPhone(from);
+    return entries.find(entry => entry.status === 'contacted' && SlotOfferCascade.hasHeldOffer(entry.id!));
+  }
+
+  private static async findNextAppointment(from: string): Promise<AppointmentRecord | null> {
+    const today = ClinicTime.getClinicDateParts().date;
+    const [next] = await airtableService.findUpcomingAppointmentsByPhone(from, today);
+    return next || null;
+  }
+
+  private static async updateWaitlist(
+    result: InboundSmsResult,
+    entry: WaitlistRecord,
+    updates: Partial<WaitlistRecord>
+  ): Promise<void> {
+    await airtableService.updateWaitlistEntry(entry.id!, { ...updates, lastContactDate: new Date().toISOString() });
+    result.updated.push({ table: 'waitlist', id: entry.id!, status: updates.status || entry.status });
+  }
+
+  private static async pollInbound(): Promise<number> {
+    const lookbackMs = communicationConfig.sms.inboundLookbackMinutes * 60 * 1000;
+    const cursor = this.read<string | null>(CURSOR_KEY, null);
+    const since = cursor ? new Date(cursor) : new Date(Date.now() - lookbackMs);
+    const handled = this.read<string[]>(HANDLED_KEY, []);
+
+    const messages = await SmsMessenger.getGateway().fetchInbound(since);
+    let count = 0;
+
+    for (const message of messages) {
+      if (handled.includes(message.messageId)) continue;
+
+      // Recorded before handling so a failure part-way never texts the patient twice
+      handled.push(message.messageId);
+      this.write(HANDLED_KEY, handled.slice(-MAX_HANDLED_IDS));
+      this.write(CURSOR_KEY, message.receivedAt.toISOString());
+
+      try {
+        await this.handle({ from: message.from, body: message.body, messageId: message.messageId });
+        count++;
+      } catch (error) {
+        console.error(`Inbound SMS ${message.messageId} could not be handled:`, error);
+      }
+    }
+
+    return count;
+  }
+
+  private static appendNote(existing: string | undefined, note: string): string {
+    return existing ? `${existing}\n${note}` : note;
+  }
+
+  private static async reply(
+    to: string,
+    result: InboundSmsResult,
+    template: MessageTemplate,
+    values: TemplateValues,
+    language?: string
+  ): Promise<InboundSmsResult> {
+    result.reply = TemplateEngine.renderText(template, values, { language });
+
+    const delivery = await OutboundQueue.send(to, result.reply, 'inbound_reply');
+    if (delivery.status === 'dead_lettered') {
+      console.error(`Reply to ${to} failed:`, delivery.error);
+    }
+    return result;
+  }
+
+  private static read<T>(key: string, fallback: T): T {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : this.memoryStore.get(key);
+      return JSON.parse(raw || 'null') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static write(key: string, value: unknown): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, JSON.stringify(value));
+      } else {
+        this.memoryStore.set(key, JSON.stringify(value));
+      }
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    }
+  }
+}
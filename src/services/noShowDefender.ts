@@ -1,4 +1,9 @@
-import { DentalService } from './dentalService';
+import { procedureConfig, ProcedureType } from '../config/dental';
+import { airtableService, AppointmentRecord, WaitlistRecord } from './airtableService';
+import { SchedulingEngine } from './schedulingEngine';
+import { ProviderRoster } from './providerRoster';
+import { SlotOfferCascade, SlotOffer } from './slotOffers';
+import { ClinicTime } from '../utils/clinicTime';
 
 export interface NoShowDefenderConfig {
   reminders: {
@@ -8,16 +13,33 @@ export interface NoShowDefenderConfig {
   waitlist: {
     autoFill: boolean;
     priority: string[];
+    holdMinutes: number; // how long each patient has to accept before the offer moves on
+    cutoffMinutes: number; // stop offering this close to the appointment
   };
 }
 
-export interface WaitlistPatient {
-  id: string;
-  name: string;
-  phone: string;
-  preferredTimes: string[];
-  priority: 'emergency' | 'new_patient' | 'regular';
-  addedAt: Date;
+// The exact chair time released by a cancellation
+export interface FreedSlot {
+  appointmentId?: string;
+  date: string; // YYYY-MM-DD in clinic time zone
+  time: string; // HH:mm in clinic time zone
+  start: Date;
+  duration: number; // minutes
+  procedure: string;
+  provider: string;
+  providerId?: string;
+  chair?: string;
+}
+
+export interface CancellationResult {
+  slot?: FreedSlot;
+  offer?: SlotOffer; // the slot is booked only once a waitlist patient accepts
+}
+
+// Dashboard dry run - who a freed slot would be offered to, in order; nobody is texted and nothing is written
+export interface CancellationPreview {
+  slot?: FreedSlot; // missing when nothing is open tomorrow
+  candidates: WaitlistRecord[];
 }
 
 export class NoShowDefender {
@@ -28,170 +50,198 @@ export class NoShowDefender {
     },
     waitlist: {
       autoFill: true,
-      priority: ["emergency", "new_patient", "regular"]
+      priority: ["emergency", "new_patient", "regular"],
+      holdMinutes: 30,
+      cutoffMinutes: 60
     }
   };
 
-  private static waitlist: WaitlistPatient[] = [
-    {
-      id: '1',
-      name: 'Sarah Johnson',
-      phone: '555-0123',
-      preferredTimes: ['morning', 'afternoon'],
-      priority: 'emergency',
-      addedAt: new Date(Date.now() - 2 * 60 * 60 * 1000) // 2 hours ago
-    },
-    {
-      id: '2', 
-      name: 'Mike Chen',
-      phone: '555-0456',
-      preferredTimes: ['afternoon'],
-      priority: 'new_patient',
-      addedAt: new Date(Date.now() - 24 * 60 * 60 * 1000) // 1 day ago
-    },
-    {
-      id: '3',
-      name: 'Emma Davis',
-      phone: '555-0789',
-      preferredTimes: ['morning'],
-      priority: 'regular',
-      addedAt: new Date(Date.now() - 3 * 60 * 60 * 1000) // 3 hours ago
+  // Named windows a waitlist entry may list in preferredTimes; ranges like "09:00-11:30" also work
+  private static timeWindows: Record<string, [string, string]> = {
+    morning: ['00:00', '12:00'],
+    afternoon: ['12:00', '17:00'],
+    evening: ['17:00', '24:00']
+  };
+
+  static getReminderConfig(): NoShowDefenderConfig['reminders'] {
+    return this.config.reminders;
+  }
+
+  static getWaitlistConfig(): NoShowDefenderConfig['waitlist'] {
+    return this.config.waitlist;
+  }
+
+  // Cancel an appointment and offer its exact slot to the waitlist
+  static async handleCancellation(appointmentId: string, reason?: string): Promise<CancellationResult> {
+    const appointment = await airtableService.getAppointment(appointmentId);
+    if (!appointment) {
+      throw new Error(`Appointment ${appointmentId} not found`);
+    }
+    if (appointment.status !== 'scheduled' && appointment.status !== 'confirmed') {
+      console.warn(`Appointment ${appointmentId} is ${appointment.status} - nothing to cancel`);
+      return {};
     }
-  ];
 
-  static async handleCancellation(appointmentSlot: string): Promise<{
-    filled: boolean;
-    patient?: WaitlistPatient;
-    revenueRecovered: number;
-  }> {
-    console.log(`🚨 CANCELLATION DETECTED: ${appointmentSlot}`);
-    
+    await airtableService.cancelAppointment(appointmentId, reason);
+
+    const slot = this.toFreedSlot(appointment);
+    console.log(`🚨 CANCELLATION DETECTED: ${slot.date} ${slot.time} ${slot.procedure} with ${slot.provider}`);
+
+    return this.offerFreedSlot(slot);
+  }
+
+  // Start an offer cascade over every matching waitlist entry, best candidate first
+  static async offerFreedSlot(slot: FreedSlot): Promise<CancellationResult> {
     if (!this.config.waitlist.autoFill) {
-      return { filled: false, revenueRecovered: 0 };
+      return { slot };
+    }
+    if (slot.start.getTime() <= Date.now()) {
+      console.log(`Freed slot ${slot.date} ${slot.time} has already started - waitlist not checked`);
+      return { slot };
     }
 
-    // Sort waitlist by priority and time added
-    const sortedWaitlist = this.waitlist.sort((a, b) => {
-      const priorityOrder = { emergency: 0, new_patient: 1, regular: 2 };
-      const aPriority = priorityOrder[a.priority];
-      const bPriority = priorityOrder[b.priority];
-      
-      if (aPriority !== bPriority) {
-        return aPriority - bPriority;
-      }
-      
-      return a.addedAt.getTime() - b.addedAt.getTime();
-    });
+    const waitlist = await this.getOpenWaitlist();
+    const candidates = waitlist.filter(entry => this.matchesSlot(entry, slot));
+    console.log(`${candidates.length} of ${waitlist.length} open waitlist entries match ${slot.date} ${slot.time}`);
+
+    const offer = await SlotOfferCascade.begin(slot, candidates);
+    return { slot, offer };
+  }
 
-    // Try to fill the slot
-    for (const patient of sortedWaitlist) {
-      const timeSlot = appointmentSlot.toLowerCase();
-      const patientAvailable = patient.preferredTimes.some(time => 
-        timeSlot.includes(time)
-      );
-
-      if (patientAvailable) {
-        // Remove from waitlist
-        this.waitlist = this.waitlist.filter(p => p.id !== patient.id);
-        
-        // Send confirmation SMS
-        await this.sendConfirmationSMS(patient, appointmentSlot);
-        
-        // Calculate revenue recovered (average appointment value)
-        const revenueRecovered = this.calculateRevenueRecovered(appointmentSlot);
-        
-        console.log(`✅ SLOT FILLED: ${patient.name} booked for ${appointmentSlot}`);
-        console.log(`💰 REVENUE RECOVERED: $${revenueRecovered}`);
-        
-        return { 
-          filled: true, 
-          patient, 
-          revenueRecovered 
-        };
+  // Active entries in priority order, oldest first within a priority; entries past maxWaitDays are expired on the way
+  // unless this is only a preview
+  private static async getOpenWaitlist(expireStale = true): Promise<WaitlistRecord[]> {
+    const entries = await airtableService.getWaitlist({});
+    const open: WaitlistRecord[] = [];
+
+    for (const entry of entries) {
+      const ageDays = (Date.now() - new Date(entry.addedDate).getTime()) / (24 * 60 * 60 * 1000);
+      if (entry.maxWaitDays > 0 && ageDays > entry.maxWaitDays) {
+        if (!expireStale) continue;
+        try {
+          await airtableService.updateWaitlistEntry(entry.id!, { status: 'expired' });
+          console.log(`⌛ Waitlist entry for ${entry.patientName} expired after ${entry.maxWaitDays} days`);
+        } catch (error) {
+          console.error(`Failed to expire waitlist entry ${entry.id}:`, error);
+        }
+        continue;
       }
+      open.push(entry);
     }
 
-    return { filled: false, revenueRecovered: 0 };
-  }
+    const priorityOrder = this.config.waitlist.priority;
+    return open.sort((a, b) => {
+      const aPriority = priorityOrder.indexOf(a.priority);
+      const bPriority = priorityOrder.indexOf(b.priority);
 
-  private static async sendConfirmationSMS(patient: WaitlistPatient, slot: string): Promise<void> {
-    const message = `
-🦷 ELITE DENTAL - APPOINTMENT AVAILABLE!
+      if (aPriority !== bPriority) {
+        return aPriority - bPriority;
+      }
 
-Hi ${patient.name}! A ${slot} appointment just opened up.
+      return new Date(a.addedDate).getTime() - new Date(b.addedDate).getTime();
+    });
+  }
 
-📅 Your slot is CONFIRMED
-📱 Reply CONFIRM to secure
-📞 Call (555) 123-DENTAL for changes
+  // Same procedure (or one the slot's provider can do in the freed time), on an acceptable day, inside an acceptable time window
+  private static matchesSlot(entry: WaitlistRecord, slot: FreedSlot): boolean {
+    const wanted = SchedulingEngine.resolveProcedure(entry.procedure);
+    const freed = SchedulingEngine.resolveProcedure(slot.procedure);
+    const procedureFits = !!wanted && (wanted === freed || procedureConfig[wanted].duration <= slot.duration);
+    if (!procedureFits) return false;
+
+    const provider = ProviderRoster.getProvider(slot.providerId || slot.provider);
+    if (provider && !ProviderRoster.canPerform(provider, wanted)) return false;
+
+    const dates = entry.preferredDates || [];
+    const weekday = ClinicTime.getWeekday(slot.date);
+    const dateFits = dates.length === 0 || dates.some(date => {
+      const value = date.trim().toLowerCase();
+      return value === slot.date || value === weekday || value === weekday.slice(0, 3);
+    });
+    if (!dateFits) return false;
 
-Thank you for choosing Elite Dental!
-    `.trim();
+    const times = entry.preferredTimes || [];
+    if (times.length === 0) return true;
 
-    console.log(`📱 SMS sent to ${patient.phone}:`, message);
-    // SMS service integration would go here
+    const minutes = ClinicTime.toMinutes(slot.time);
+    return times.some(time => {
+      const value = time.trim().toLowerCase();
+      const range = this.timeWindows[value] || value.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/)?.slice(1, 3);
+      if (!range) return false;
+      return minutes >= ClinicTime.toMinutes(range[0]) && minutes < ClinicTime.toMinutes(range[1]);
+    });
   }
 
-  private static calculateRevenueRecovered(slot: string): number {
-    // Average appointment values by time slot
-    const slotValues = {
-      'morning': 380,
-      'afternoon': 420,
-      'evening': 350,
-      'emergency': 580
+  private static toFreedSlot(appointment: AppointmentRecord): FreedSlot {
+    const procedure = SchedulingEngine.resolveProcedure(appointment.procedure);
+    const provider = ProviderRoster.getProvider(appointment.providerId || appointment.provider);
+    return {
+      appointmentId: appointment.id,
+      date: appointment.appointmentDate,
+      time: appointment.appointmentTime,
+      start: ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime),
+      duration: appointment.duration || (procedure ? procedureConfig[procedure].duration : 60),
+      procedure: procedure || appointment.procedure,
+      provider: appointment.provider,
+      providerId: appointment.providerId || provider?.id,
+      chair: appointment.chair || provider?.chairs[0]
     };
-
-    for (const [timeType, value] of Object.entries(slotValues)) {
-      if (slot.toLowerCase().includes(timeType)) {
-        return value;
-      }
-    }
-
-    return 400; // Default average
   }
 
-  static getWaitlistStats(): {
+  static async getWaitlistStats(): Promise<{
     total: number;
     byPriority: Record<string, number>;
     averageWaitTime: number;
-  } {
-    const byPriority = this.waitlist.reduce((acc, patient) => {
+  }> {
+    const waitlist = await airtableService.getWaitlist({});
+
+    const byPriority = waitlist.reduce((acc, patient) => {
       acc[patient.priority] = (acc[patient.priority] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
-    const averageWaitTime = this.waitlist.length > 0 
-      ? this.waitlist.reduce((sum, patient) => {
-          return sum + (Date.now() - patient.addedAt.getTime());
-        }, 0) / this.waitlist.length / (1000 * 60 * 60) // Convert to hours
+    const averageWaitTime = waitlist.length > 0 
+      ? waitlist.reduce((sum, patient) => {
+          return sum + (Date.now() - new Date(patient.addedDate).getTime());
+        }, 0) / waitlist.length / (1000 * 60 * 60) // Convert to hours
       : 0;
 
     return {
-      total: this.waitlist.length,
+      total: waitlist.length,
       byPriority,
       averageWaitTime: Math.round(averageWaitTime * 10) / 10
     };
   }
 
-  static addToWaitlist(patient: Omit<WaitlistPatient, 'id' | 'addedAt'>): void {
-    const newPatient: WaitlistPatient = {
-      ...patient,
-      id: Date.now().toString(),
-      addedAt: new Date()
-    };
-    
-    this.waitlist.push(newPatient);
-    console.log(`➕ Added to waitlist: ${patient.name} (${patient.priority})`);
+  static async addToWaitlist(
+    patient: Omit<WaitlistRecord, 'id' | 'addedDate' | 'contactAttempts' | 'status'>
+  ): Promise<WaitlistRecord> {
+    const entry = await airtableService.addToWaitlist(patient);
+    console.log(`➕ Added to waitlist: ${patient.patientName} (${patient.priority})`);
+    return entry;
   }
 
-  // Simulate cancellations for demo
-  static simulateCancellation(): void {
-    const slots = [
-      'Tomorrow 10:00 AM - Cleaning',
-      'Today 2:30 PM - Consultation', 
-      'Tomorrow 9:00 AM - Emergency'
-    ];
-    
-    const randomSlot = slots[Math.floor(Math.random() * slots.length)];
-    this.handleCancellation(randomSlot);
+  // Simulate a cancellation for the demo as a dry run: a genuinely open slot tomorrow and the waitlist patients
+  // the cascade would offer it to - no SMS goes out and no appointment or waitlist entry changes
+  static async simulateCancellation(): Promise<CancellationPreview> {
+    const procedures: ProcedureType[] = ['cleaning', 'consultation', 'emergency'];
+    const procedure = procedures[Math.floor(Math.random() * procedures.length)];
+    const tomorrow = ClinicTime.addDays(ClinicTime.getClinicDateParts().date, 1);
+
+    const open = await SchedulingEngine.findFirstOpenSlot({
+      procedure,
+      earliest: ClinicTime.clinicTimeToDate(tomorrow, '00:00')
+    });
+    if (!open) {
+      return { candidates: [] };
+    }
+
+    const slot: FreedSlot = { ...open, procedure };
+    if (!this.config.waitlist.autoFill) {
+      return { slot, candidates: [] };
+    }
+
+    const waitlist = await this.getOpenWaitlist(false);
+    return { slot, candidates: waitlist.filter(entry => this.matchesSlot(entry, slot)) };
   }
-}
\ No newline at end of file
+}
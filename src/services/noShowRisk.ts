@@ -0,0 +1,229 @@
+// No-Show Risk Prediction for Elite Dental AI Widget
+// Scores upcoming appointments from the clinic's own history - day, time, procedure, lead time and the patient's record
+
+import { noShowRiskConfig, NoShowRiskLevel } from '../config/dental';
+import { airtableService, AppointmentRecord } from './airtableService';
+import { SchedulingEngine } from './schedulingEngine';
+import { ClinicTime } from '../utils/clinicTime';
+
+// Only what is already known when an upcoming visit is scored - reminder counts are not, since history rows hold
+// the final count while upcoming ones hold the count so far
+export type NoShowFeature = 'weekday' | 'timeBand' | 'procedure' | 'leadTime';
+
+interface OutcomeCounts {
+  visits: number; // attended + missed
+  misses: number;
+}
+
+interface PatientHistory extends OutcomeCounts {
+  cancellations: number;
+}
+
+export interface NoShowModel {
+  builtAt: string;
+  baseRate: number; // clinic-wide share of visits missed
+  sampleSize: number;
+  features: Record<NoShowFeature, Record<string, OutcomeCounts>>;
+  patients: Record<string, PatientHistory>;
+}
+
+export interface NoShowRiskScore {
+  appointmentId?: string;
+  score: number; // probability of a no-show, 0-1
+  level: NoShowRiskLevel;
+  factors: string[]; // plain-language reasons the score is above average
+}
+
+export interface AppointmentRisk extends NoShowRiskScore {
+  appointment: AppointmentRecord;
+}
+
+const FEATURES: NoShowFeature[] = ['weekday', 'timeBand', 'procedure', 'leadTime'];
+
+export class NoShowPredictor {
+  private static model: NoShowModel | null = null;
+  private static loading: Promise<NoShowModel> | null = null;
+
+  // Pure model build over past appointments; only completed and no-show visits teach the feature rates
+  static buildModel(history: AppointmentRecord[], now: Date = new Date()): NoShowModel {
+    const features = Object.fromEntries(FEATURES.map(feature => [feature, {}])) as NoShowModel['features'];
+    const patients: Record<string, PatientHistory> = {};
+    let visits = 0;
+    let misses = 0;
+
+    for (const appointment of history) {
+      const key = this.patientKey(appointment);
+      const patient = patients[key] || (patients[key] = { visits: 0, misses: 0, cancellations: 0 });
+
+      if (appointment.status === 'cancelled') {
+        patient.cancellations++;
+        continue;
+      }
+      if (appointment.status !== 'completed' && appointment.status !== 'no-show') continue;
+
+      const missed = appointment.status === 'no-show';
+      visits++;
+      patient.visits++;
+      if (missed) {
+        misses++;
+        patient.misses++;
+      }
+
+      FEATURES.forEach(feature => {
+        const value = this.getFeatureValue(appointment, feature);
+        if (!value) return;
+        const counts = features[feature][value] || (features[feature][value] = { visits: 0, misses: 0 });
+        counts.visits++;
+        if (missed) counts.misses++;
+      });
+    }
+
+    const observed = visits >= noShowRiskConfig.minHistory ? misses / visits : noShowRiskConfig.defaultRate;
+    return {
+      builtAt: now.toISOString(),
+      baseRate: Math.min(Math.max(observed, 0.01), 0.9), // keep the odds finite for a spotless or dismal record
+      sampleSize: visits,
+      features,
+      patients
+    };
+  }
+
+  // Each feature shifts the clinic-wide odds by how its bucket has done; the patient's own record then pulls the result
+  static scoreAppointment(appointment: AppointmentRecord, model: NoShowModel): NoShowRiskScore {
+    const { smoothing, patientSmoothing, cancellationWeight, factorLift, thresholds } = noShowRiskConfig;
+    const baseOdds = this.toOdds(model.baseRate);
+    let logOdds = Math.log(baseOdds);
+    const factors: string[] = [];
+
+    FEATURES.forEach(feature => {
+      const value = this.getFeatureValue(appointment, feature);
+      const counts = value ? model.features[feature][value] : undefined;
+      if (!value || !counts) return;
+
+      const rate = (counts.misses + smoothing * model.baseRate) / (counts.visits + smoothing);
+      const lift = this.toOdds(rate) / baseOdds;
+      logOdds += Math.log(lift);
+      if (lift >= factorLift) {
+        factors.push(`${this.describe(feature, value)}: ${Math.round(rate * 100)}% of past visits missed`);
+      }
+    });
+
+    const featureScore = 1 / (1 + Math.exp(-logOdds));
+    const patient = model.patients[this.patientKey(appointment)];
+    let score = featureScore;
+
+    if (patient && (patient.visits > 0 || patient.cancellations > 0)) {
+      const weightedMisses = patient.misses + cancellationWeight * patient.cancellations;
+      const record = patient.visits + patient.cancellations;
+      score = (weightedMisses + patientSmoothing * featureScore) / (record + patientSmoothing);
+
+      if (patient.misses > 0) {
+        factors.unshift(`Missed ${patient.misses} of ${patient.visits} past visit(s)`);
+      } else if (patient.cancellations > 0 && weightedMisses / record > model.baseRate) {
+        factors.unshift(`Cancelled ${patient.cancellations} past appointment(s)`);
+      }
+    }
+
+    const level: NoShowRiskLevel = score >= thresholds.high ? 'high' : score >= thresholds.medium ? 'medium' : 'low';
+    return { appointmentId: appointment.id, score: Math.round(score * 1000) / 1000, level, factors };
+  }
+
+  // Model over the configured history window, rebuilt at most every cacheMinutes
+  static async getModel(now: Date = new Date()): Promise<NoShowModel> {
+    const maxAgeMs = noShowRiskConfig.cacheMinutes * 60 * 1000;
+    if (this.model && now.getTime() - new Date(this.model.builtAt).getTime() < maxAgeMs) {
+      return this.model;
+    }
+    if (this.loading) {
+      return this.loading;
+    }
+
+    this.loading = (async () => {
+      const today = ClinicTime.getClinicDateParts(now).date;
+      const history = await airtableService.getAppointmentHistory(
+        ClinicTime.addDays(today, -noShowRiskConfig.historyDays),
+        today
+      );
+      this.model = this.buildModel(history, now);
+      console.log(
+        `📉 No-show model built from ${this.model.sampleSize} visits - clinic rate ${Math.round(this.model.baseRate * 100)}%`
+      );
+      return this.model;
+    })();
+
+    try {
+      return await this.loading;
+    } finally {
+      this.loading = null;
+    }
+  }
+
+  static async assess(appointment: AppointmentRecord): Promise<NoShowRiskScore> {
+    return this.scoreAppointment(appointment, await this.getModel());
+  }
+
+  // Upcoming scheduled/confirmed appointments at medium risk or above, riskiest first
+  static async getUpcomingRisks(days: number = 7, now: Date = new Date()): Promise<AppointmentRisk[]> {
+    const model = await this.getModel(now);
+    const today = ClinicTime.getClinicDateParts(now).date;
+    const appointments = await airtableService.getAppointmentsInRange(today, ClinicTime.addDays(today, days));
+
+    return appointments
+      .filter(appointment => appointment.status === 'scheduled' || appointment.status === 'confirmed')
+      .filter(appointment =>
+        ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime).getTime() > now.getTime()
+      )
+      .map(appointment => ({ ...this.scoreAppointment(appointment, model), appointment }))
+      .filter(risk => risk.level !== 'low')
+      .sort((a, b) => b.score - a.score);
+  }
+
+  static clearCache(): void {
+    this.model = null;
+  }
+
+  private static getFeatureValue(appointment: AppointmentRecord, feature: NoShowFeature): string | null {
+    switch (feature) {
+      case 'weekday':
+        return ClinicTime.getWeekday(appointment.appointmentDate);
+      case 'timeBand': {
+        const minutes = ClinicTime.toMinutes(appointment.appointmentTime);
+        const { morning, afternoon } = noShowRiskConfig.timeBands;
+        if (minutes < ClinicTime.toMinutes(morning)) return 'morning';
+        return minutes < ClinicTime.toMinutes(afternoon) ? 'afternoon' : 'late';
+      }
+      case 'procedure':
+        return SchedulingEngine.resolveProcedure(appointment.procedure) || appointment.procedure.trim().toLowerCase();
+      case 'leadTime': {
+        if (!appointment.createdAt) return null;
+        const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+        const days = (start.getTime() - new Date(appointment.createdAt).getTime()) / (24 * 60 * 60 * 1000);
+        if (!Number.isFinite(days) || days < 0) return null;
+        const edges = noShowRiskConfig.leadTimeDays;
+        const index = edges.findIndex(edge => days <= edge);
+        return index === -1 ? `>${edges[edges.length - 1]}` : `<=${edges[index]}`;
+      }
+    }
+  }
+
+  private static describe(feature: NoShowFeature, value: string): string {
+    switch (feature) {
+      case 'weekday':
+        return `${value.charAt(0).toUpperCase()}${value.slice(1)} visit`;
+      case 'timeBand':
+        return value === 'late' ? 'Late-day start' : `${value.charAt(0).toUpperCase()}${value.slice(1)} start`;
+      case 'procedure':
+        return `${value.charAt(0).toUpperCase()}${value.slice(1)} visit`;
+      case 'leadTime':
+        return value.startsWith('>') ? `Booked more than ${value.slice(1)} days ahead` : `Booked within ${value.slice(2)} days`;
+    }
+  }
+
+  private static patientKey(appointment: AppointmentRecord): string {
+    return appointment.patientId || (appointment.phone || '').replace(/\D/g, '').slice(-10);
+  }
+
+  private static toOdds(rate: number): number {
+    return rate / (1 - rate);
+  }
+}
@@ -0,0 +1,431 @@
+// Outbound Message Queue for Elite Dental AI Widget
+// Durable SMS outbox - retries with exponential backoff, dead-letters permanent failures and drops duplicates;
+// accepted messages are checked until the carrier reports them delivered, and carrier failures are dead-lettered too
+
+import { communicationConfig } from '../config/dental';
+import { SmsMessenger } from './smsMessenger';
+import type { SmsSendResult } from './smsGateway';
+
+export interface QueuedMessage {
+  id: string;
+  to: string;
+  body: string;
+  type: string;
+  metadata?: Record<string, unknown>;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface DeadLetterMessage extends QueuedMessage {
+  failedAt: string;
+  reason: string;
+}
+
+// Accepted by the gateway, no final carrier status yet
+interface AwaitingDelivery extends QueuedMessage {
+  messageId: string;
+  sentAt: string;
+}
+
+export interface OutboundDeliveryResult {
+  status: 'sent' | 'queued' | 'duplicate' | 'dead_lettered';
+  messageId?: string;
+  error?: string;
+}
+
+export interface DrainSummary {
+  sent: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+// Final word on a message: the carrier confirmed it, or it was dead-lettered (detail says why)
+export type DeliveryListener = (message: QueuedMessage, outcome: 'delivered' | 'failed', detail?: string) => void;
+
+export interface DeliveryCheckSummary {
+  delivered: number;
+  failed: number;
+  pending: number;
+}
+
+const QUEUE_KEY = 'dental_sms_queue';
+const DEAD_LETTER_KEY = 'dental_sms_dead_letters';
+const SENT_LOG_KEY = 'dental_sms_sent_log';
+const AWAITING_DELIVERY_KEY = 'dental_sms_awaiting_delivery';
+const OUTBOX_LOCK = 'dental_sms_outbox';
+
+export class OutboundQueue {
+  private static draining: Promise<DrainSummary> | null = null;
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static deliveryTimer: ReturnType<typeof setInterval> | null = null;
+  private static onlineListener: (() => void) | null = null;
+  private static listeners: Set<() => void> = new Set();
+  private static deliveryListeners: Set<DeliveryListener> = new Set();
+  private static memoryStore: Map<string, string> = new Map(); // used where localStorage is unavailable
+
+  // Queue a message and try to deliver it straight away
+  static async send(to: string, body: string, type: string, metadata?: Record<string, unknown>): Promise<OutboundDeliveryResult> {
+    const message = this.enqueue(to, body, type, metadata);
+    if (!message) {
+      return { status: 'duplicate' };
+    }
+
+    await this.drain();
+
+    if (this.getQueue().some(entry => entry.id === message.id)) {
+      return { status: 'queued', error: this.getQueue().find(entry => entry.id === message.id)?.lastError };
+    }
+    const deadLetter = this.getDeadLetters().find(entry => entry.id === message.id);
+    if (deadLetter) {
+      return { status: 'dead_lettered', error: deadLetter.reason };
+    }
+    return { status: 'sent', messageId: this.getSentLog()[this.dedupeKey(to, body)]?.messageId };
+  }
+
+  // Add to the outbox; returns null when the same message to the same number is pending or was just sent,
+  // unless the type is exempt from dedupe
+  static enqueue(to: string, body: string, type: string, metadata?: Record<string, unknown>): QueuedMessage | null {
+    const key = this.dedupeKey(to, body);
+    const queue = this.getQueue();
+    const exempt = (communicationConfig.outboundQueue.dedupeExemptTypes as readonly string[]).includes(type);
+
+    if (!exempt && queue.some(entry => this.dedupeKey(entry.to, entry.body) === key)) {
+      console.log(`Duplicate ${type} SMS to ${to} already queued - skipped`);
+      return null;
+    }
+
+    const lastSent = this.getSentLog()[key];
+    const windowMs = communicationConfig.outboundQueue.dedupeWindowMinutes * 60 * 1000;
+    if (!exempt && lastSent && Date.now() - new Date(lastSent.sentAt).getTime() < windowMs) {
+      console.log(`Duplicate ${type} SMS to ${to} sent recently - skipped`);
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const message: QueuedMessage = {
+      id: `sms-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      to,
+      body,
+      type,
+      metadata: this.toSerializable(metadata),
+      queuedAt: now,
+      attempts: 0,
+      nextAttemptAt: now
+    };
+
+    this.saveQueue([...queue, message]);
+    return message;
+  }
+
+  // Attempt every message whose backoff has elapsed; a drain requested mid-drain runs once the current one ends
+  static async drain(): Promise<DrainSummary> {
+    if (this.draining) {
+      return this.draining.then(() => this.drain());
+    }
+
+    this.draining = this.withOutboxLock(() => this.drainDue());
+    try {
+      return await this.draining;
+    } finally {
+      this.draining = null;
+    }
+  }
+
+  // Every tab shares the outbox in localStorage; the Web Lock keeps two tabs from sending the same message
+  private static withOutboxLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return task();
+    }
+    return navigator.locks.request(OUTBOX_LOCK, task);
+  }
+
+  private static async drainDue(): Promise<DrainSummary> {
+    const summary: DrainSummary = { sent: 0, retrying: 0, deadLettered: 0 };
+
+    try {
+      const due = this.getQueue().filter(entry => new Date(entry.nextAttemptAt).getTime() <= Date.now());
+
+      for (const message of due) {
+        let result: SmsSendResult;
+        try {
+          result = await SmsMessenger.send(message.to, message.body, message.type, message.metadata);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown SMS error';
+          result = { messageId: '', status: 'failed', error: errorMessage, retryable: true };
+        }
+
+        if (result.status !== 'failed' && result.status !== 'opted_out') {
+          this.removeFromQueue(message.id);
+          this.recordSent(message, result.messageId);
+          if (result.messageId && result.status !== 'delivered') {
+            this.awaitDelivery(message, result.messageId);
+          } else {
+            // Already final, or the provider gave no id to track - acceptance is the best report there will be
+            this.reportDelivery(message, 'delivered');
+          }
+          summary.sent++;
+          continue;
+        }
+
+        const attempts = message.attempts + 1;
+        if (result.retryable === false || attempts >= communicationConfig.outboundQueue.maxAttempts) {
+          this.deadLetter({ ...message, attempts, lastError: result.error }, result.status === 'opted_out'
+            ? 'Recipient opted out'
+            : result.error || 'Delivery failed');
+          summary.deadLettered++;
+          continue;
+        }
+
+        this.updateQueued({
+          ...message,
+          attempts,
+          lastError: result.error,
+          nextAttemptAt: new Date(Date.now() + this.getBackoffMs(attempts)).toISOString()
+        });
+        summary.retrying++;
+      }
+    } finally {
+      this.notify();
+    }
+
+    return summary;
+  }
+
+  // Ask the provider about every accepted message; undelivered ones become dead letters staff can retry
+  static checkDeliveries(): Promise<DeliveryCheckSummary> {
+    return this.withOutboxLock(async () => {
+      const summary: DeliveryCheckSummary = { delivered: 0, failed: 0, pending: 0 };
+      const cutoff = Date.now() - communicationConfig.outboundQueue.deliveryTrackingHours * 60 * 60 * 1000;
+      const awaiting = this.getAwaitingDelivery();
+      const stillAwaiting: AwaitingDelivery[] = [];
+
+      for (const entry of awaiting) {
+        if (new Date(entry.sentAt).getTime() < cutoff) continue;
+
+        const update = await SmsMessenger.checkStatus(entry.messageId);
+        if (update?.status === 'delivered') {
+          this.reportDelivery(entry, 'delivered');
+          summary.delivered++;
+        } else if (update && ['failed', 'undelivered', 'opted_out'].includes(update.status)) {
+          this.deadLetter(entry, update.status === 'opted_out'
+            ? 'Recipient opted out'
+            : `Carrier reported the message ${update.status}${update.errorCode ? ` (error ${update.errorCode})` : ''}`);
+          summary.failed++;
+        } else {
+          stillAwaiting.push(entry);
+        }
+      }
+
+      summary.pending = stillAwaiting.length;
+      this.write(AWAITING_DELIVERY_KEY, stillAwaiting);
+      if (summary.failed > 0) {
+        this.notify();
+      }
+      return summary;
+    });
+  }
+
+  // Drain on an interval and whenever the browser comes back online; check delivery reports on their own interval
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.drain().catch(error => console.error('Outbound queue drain failed:', error));
+    }, communicationConfig.outboundQueue.drainIntervalMs);
+
+    this.deliveryTimer = setInterval(() => {
+      this.checkDeliveries().catch(error => console.error('SMS delivery check failed:', error));
+    }, communicationConfig.outboundQueue.deliveryCheckIntervalMs);
+
+    if (typeof window !== 'undefined') {
+      this.onlineListener = () => {
+        console.log('Connection restored - draining outbound SMS queue');
+        this.drain().catch(error => console.error('Outbound queue drain failed:', error));
+      };
+      window.addEventListener('online', this.onlineListener);
+    }
+
+    this.drain().catch(error => console.error('Outbound queue drain failed:', error));
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.deliveryTimer) {
+      clearInterval(this.deliveryTimer);
+      this.deliveryTimer = null;
+    }
+    if (this.onlineListener && typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineListener);
+      this.onlineListener = null;
+    }
+  }
+
+  static getQueue(): QueuedMessage[] {
+    // Entries written by the old queue only had message/type/metadata - bring them forward
+    return this.read<Array<QueuedMessage & { message?: string }>>(QUEUE_KEY, [])
+      .map(entry => ({
+        ...entry,
+        id: entry.id || `sms-legacy-${entry.queuedAt}`,
+        to: entry.to || String(entry.metadata?.to || ''),
+        body: entry.body || entry.message || '',
+        nextAttemptAt: entry.nextAttemptAt || entry.queuedAt
+      }));
+  }
+
+  static getDeadLetters(): DeadLetterMessage[] {
+    return this.read<DeadLetterMessage[]>(DEAD_LETTER_KEY, []);
+  }
+
+  // Move a dead letter back into the queue with a fresh attempt budget
+  static retryDeadLetter(id: string): boolean {
+    const deadLetters = this.getDeadLetters();
+    const message = deadLetters.find(entry => entry.id === id);
+    if (!message) return false;
+
+    const queued: QueuedMessage = {
+      id: message.id,
+      to: message.to,
+      body: message.body,
+      type: message.type,
+      metadata: message.metadata,
+      queuedAt: message.queuedAt,
+      attempts: 0,
+      nextAttemptAt: new Date().toISOString()
+    };
+    this.write(DEAD_LETTER_KEY, deadLetters.filter(entry => entry.id !== id));
+    this.saveQueue([...this.getQueue(), queued]);
+    this.notify();
+    return true;
+  }
+
+  static discardDeadLetter(id: string): void {
+    this.write(DEAD_LETTER_KEY, this.getDeadLetters().filter(entry => entry.id !== id));
+    this.notify();
+  }
+
+  static getStats(): { pending: number; deadLettered: number } {
+    return { pending: this.getQueue().length, deadLettered: this.getDeadLetters().length };
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Told once per message when it is delivered or dead-lettered; metadata passed to send() comes back with it
+  static onDelivery(listener: DeliveryListener): () => void {
+    this.deliveryListeners.add(listener);
+    return () => this.deliveryListeners.delete(listener);
+  }
+
+  private static getBackoffMs(attempts: number): number {
+    const { baseBackoffMs, maxBackoffMs } = communicationConfig.outboundQueue;
+    return Math.min(baseBackoffMs * 2 ** (attempts - 1), maxBackoffMs);
+  }
+
+  private static deadLetter(message: QueuedMessage, reason: string): void {
+    this.removeFromQueue(message.id);
+    this.write(DEAD_LETTER_KEY, [
+      ...this.getDeadLetters(),
+      { ...message, failedAt: new Date().toISOString(), reason }
+    ]);
+    console.error(`SMS ${message.id} to ${message.to} moved to dead letters:`, reason);
+    this.reportDelivery(message, 'failed', reason);
+  }
+
+  private static reportDelivery(message: QueuedMessage, outcome: 'delivered' | 'failed', detail?: string): void {
+    this.deliveryListeners.forEach(listener => {
+      try {
+        listener(message, outcome, detail);
+      } catch (error) {
+        console.error('SMS delivery listener failed:', error);
+      }
+    });
+  }
+
+  private static recordSent(message: QueuedMessage, messageId: string): void {
+    const windowMs = communicationConfig.outboundQueue.dedupeWindowMinutes * 60 * 1000;
+    const log = Object.fromEntries(
+      Object.entries(this.getSentLog()).filter(([, entry]) => Date.now() - new Date(entry.sentAt).getTime() < windowMs)
+    );
+    log[this.dedupeKey(message.to, message.body)] = { messageId, sentAt: new Date().toISOString() };
+    this.write(SENT_LOG_KEY, log);
+  }
+
+  private static awaitDelivery(message: QueuedMessage, messageId: string): void {
+    this.write(AWAITING_DELIVERY_KEY, [
+      ...this.getAwaitingDelivery(),
+      { ...message, messageId, sentAt: new Date().toISOString() }
+    ]);
+  }
+
+  private static getAwaitingDelivery(): AwaitingDelivery[] {
+    return this.read(AWAITING_DELIVERY_KEY, []);
+  }
+
+  private static getSentLog(): Record<string, { messageId: string; sentAt: string }> {
+    return this.read(SENT_LOG_KEY, {});
+  }
+
+  private static updateQueued(message: QueuedMessage): void {
+    this.saveQueue(this.getQueue().map(entry => entry.id === message.id ? message : entry));
+  }
+
+  private static removeFromQueue(id: string): void {
+    this.saveQueue(this.getQueue().filter(entry => entry.id !== id));
+  }
+
+  private static saveQueue(queue: QueuedMessage[]): void {
+    this.write(QUEUE_KEY, queue);
+  }
+
+  private static dedupeKey(to: string, body: string): string {
+    return `${SmsMessenger.toE164(to) || to}|${body.trim()}`;
+  }
+
+  // Metadata may carry Dates and nested objects; keep only what survives JSON
+  private static toSerializable(metadata?: Record<string, unknown>): Record<string, unknown> | undefined {
+    if (!metadata) return undefined;
+    try {
+      return JSON.parse(JSON.stringify(metadata));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Outbound queue listener failed:', error);
+      }
+    });
+  }
+
+  private static read<T>(key: string, fallback: T): T {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : this.memoryStore.get(key);
+      return JSON.parse(raw || 'null') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static write(key: string, value: unknown): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, JSON.stringify(value));
+      } else {
+        this.memoryStore.set(key, JSON.stringify(value));
+      }
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    }
+  }
+}
@@ -0,0 +1,301 @@
+// Patient Identity Capture for Elite Dental AI Widget
+// Fills name, phone and date of birth from the live call and links a PatientRecord only once identity is confirmed
+
+import { airtableService, PatientRecord } from './airtableService';
+import { DentalService } from './dentalService';
+
+export interface CapturedIdentity {
+  name?: string;
+  phone?: string; // XXX-XXX-XXXX
+  dateOfBirth?: string; // MM/DD/YYYY
+}
+
+export type IdentityField = keyof CapturedIdentity;
+
+export interface IdentityStatus {
+  identity: CapturedIdentity;
+  missing: IdentityField[];
+  errors: string[];
+  warnings: string[];
+  complete: boolean; // every field present and valid - ready to read back to the caller
+  confirmed: boolean; // linked to a PatientRecord
+  patientId?: string;
+}
+
+export interface IdentityConfirmation {
+  success: boolean;
+  status: IdentityStatus;
+  reason?: string;
+  requiresVerification?: boolean; // the phone number belongs to an existing patient
+}
+
+interface IdentitySession {
+  identity: CapturedIdentity;
+  patient?: PatientRecord;
+  onConfirmed: Array<(patient: PatientRecord) => void>;
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Words that end a spoken name ("my name is Sarah and I have a toothache")
+const NAME_STOP_WORDS = [
+  'and', 'i', 'im', 'my', 'calling', 'from', 'with', 'here', 'speaking', 'about',
+  'because', 'but', 'so', 'the', 'a', 'in', 'having', 'need', 'want', 'phone', 'number', 'born'
+];
+
+export class PatientIdentityCapture {
+  private static sessions: Map<string, IdentitySession> = new Map();
+
+  // Pull any identity details out of a caller utterance
+  static ingestUtterance(callId: string, utterance: string): IdentityStatus {
+    if (!utterance || typeof utterance !== 'string') {
+      return this.getStatus(callId);
+    }
+
+    return this.provide(callId, {
+      name: this.extractName(utterance) || undefined,
+      phone: this.extractPhone(utterance) || undefined,
+      dateOfBirth: this.extractDateOfBirth(utterance) || undefined
+    });
+  }
+
+  // Record details supplied directly, e.g. by an assistant tool call; a confirmed identity is never overwritten
+  static provide(callId: string, details: CapturedIdentity): IdentityStatus {
+    const session = this.getSession(callId);
+    if (session.patient) {
+      return this.getStatus(callId);
+    }
+
+    if (details.name) {
+      session.identity.name = this.toTitleCase(details.name.trim());
+    }
+    if (details.phone) {
+      session.identity.phone = this.formatPhone(details.phone) || details.phone.trim();
+    }
+    if (details.dateOfBirth) {
+      session.identity.dateOfBirth = this.extractDateOfBirth(details.dateOfBirth, true) || details.dateOfBirth.trim();
+    }
+
+    return this.getStatus(callId);
+  }
+
+  static getStatus(callId: string): IdentityStatus {
+    const session = this.getSession(callId);
+    const { identity } = session;
+    const missing = (['name', 'phone', 'dateOfBirth'] as IdentityField[]).filter(field => !identity[field]);
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (identity.name && identity.name.split(/\s+/).length < 2) {
+      warnings.push('Only a first name was captured - ask for the last name');
+    }
+
+    if (identity.phone && identity.dateOfBirth) {
+      const validation = DentalService.validatePatient(identity.phone, identity.dateOfBirth);
+      errors.push(...validation.errors);
+      warnings.push(...validation.warnings);
+    }
+
+    return {
+      identity: { ...identity },
+      missing,
+      errors,
+      warnings,
+      complete: missing.length === 0 && errors.length === 0,
+      confirmed: !!session.patient,
+      patientId: session.patient?.id
+    };
+  }
+
+  static getConfirmedPatient(callId: string): PatientRecord | null {
+    return this.sessions.get(callId)?.patient || null;
+  }
+
+  // Run the callback once the caller's identity is confirmed (immediately if it already is)
+  static whenConfirmed(callId: string, callback: (patient: PatientRecord) => void): void {
+    const session = this.getSession(callId);
+    if (session.patient) {
+      callback(session.patient);
+    } else {
+      session.onConfirmed.push(callback);
+    }
+  }
+
+  // Create a patient for a new caller after they confirm the read-back. A phone number that already belongs to a
+  // patient is never linked here - the caller must pass PatientVerification, which links the record itself
+  static async confirm(callId: string): Promise<IdentityConfirmation> {
+    const session = this.getSession(callId);
+    const status = this.getStatus(callId);
+
+    if (session.patient) {
+      return { success: true, status };
+    }
+    if (!status.complete) {
+      return { success: false, status, reason: 'Identity is incomplete or invalid' };
+    }
+
+    const { name, phone, dateOfBirth } = session.identity as Required<CapturedIdentity>;
+    const existing = await airtableService.findPatientByPhone(phone);
+    if (existing) {
+      return {
+        success: false,
+        status,
+        reason: 'That phone number belongs to an existing patient - verify the caller before linking the record',
+        requiresVerification: true
+      };
+    }
+
+    const patient = await airtableService.createPatient({
+      patientName: name,
+      phone,
+      dateOfBirth,
+      preferredContactMethod: 'sms',
+      status: 'active'
+    });
+
+    this.linkPatient(callId, patient);
+    return { success: true, status: this.getStatus(callId) };
+  }
+
+  // Attach a patient whose identity was established another way, e.g. by PatientVerification
+  static linkPatient(callId: string, patient: PatientRecord): void {
+    const session = this.getSession(callId);
+    session.patient = patient;
+    session.identity = {
+      name: patient.patientName,
+      phone: this.formatPhone(patient.phone) || patient.phone,
+      dateOfBirth: patient.dateOfBirth
+    };
+
+    const callbacks = session.onConfirmed.splice(0);
+    callbacks.forEach(callback => {
+      try {
+        callback(patient);
+      } catch (error) {
+        console.error('Identity confirmation callback failed:', error);
+      }
+    });
+
+    console.log('Caller identity confirmed:', { callId, patientId: patient.id });
+  }
+
+  static endSession(callId: string): void {
+    const session = this.sessions.get(callId);
+    if (session && !session.patient && session.onConfirmed.length > 0) {
+      console.warn(`Call ${callId} ended before identity was confirmed - ${session.onConfirmed.length} pending action(s) dropped`);
+    }
+    this.sessions.delete(callId);
+  }
+
+  static extractName(utterance: string): string | null {
+    // "my name is" is a strong cue; "this is" / "I'm" only count when followed by capitalised words
+    const strong = utterance.match(/\bmy name(?: is|'s)\s+(.+)/i);
+    const weak = utterance.match(/\b(?:this is|i am|i'm)\s+(.+)/i);
+    const match = strong || weak;
+    if (!match) return null;
+
+    const words: string[] = [];
+    for (const word of match[1].split(/\s+/)) {
+      const clean = word.replace(/[^A-Za-z'-]/g, '');
+      if (!clean || NAME_STOP_WORDS.includes(clean.toLowerCase().replace(/'/g, ''))) break;
+      if (!strong && !/^[A-Z]/.test(clean)) break;
+      words.push(clean);
+      if (words.length === 3 || /[,.]$/.test(word)) break;
+    }
+
+    return words.length > 0 ? this.toTitleCase(words.join(' ')) : null;
+  }
+
+  static extractPhone(utterance: string): string | null {
+    // Spoken digits ("five five five ...") become numerals, then digit groups are joined
+    const numeric = utterance
+      .toLowerCase()
+      .split(/\s+/)
+      .map(word => NUMBER_WORDS[word.replace(/[^a-z]/g, '')] ?? word)
+      .join(' ')
+      .replace(/(\d)[\s().-]+(?=[\d(])/g, '$1');
+
+    const candidates = numeric.match(/\d+/g) || [];
+    const phone = candidates.find(digits => digits.length === 10 || (digits.length === 11 && digits.startsWith('1')));
+    return phone ? this.formatPhone(phone) : null;
+  }
+
+  // Dates only count as a birth date when they are in a past year, or when the caller is answering for DOB
+  static extractDateOfBirth(utterance: string, assumeDob = false): string | null {
+    const text = utterance.toLowerCase();
+    let month: number | undefined;
+    let day: number | undefined;
+    let year: number | undefined;
+
+    const numeric = text.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{4})\b/);
+    const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+    const monthFirst = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+    const dayFirst = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*,?\s+(\d{4})\b/);
+
+    if (iso) {
+      [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (numeric) {
+      [month, day, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    } else if (monthFirst) {
+      [month, day, year] = [MONTHS.indexOf(monthFirst[1]) + 1, Number(monthFirst[2]), Number(monthFirst[3])];
+    } else if (dayFirst) {
+      [day, month, year] = [Number(dayFirst[1]), MONTHS.indexOf(dayFirst[2]) + 1, Number(dayFirst[3])];
+    }
+
+    if (!month || !day || !year || month > 12 || day > 31) {
+      return null;
+    }
+
+    const mentionsBirth = /\b(born|birth|birthday|dob|d\.o\.b)\b/.test(text);
+    if (!assumeDob && !mentionsBirth && year >= new Date().getFullYear()) {
+      return null;
+    }
+
+    return `${String(month).padStart(2, '0')}/${String(day).padStart(2, '0')}/${year}`;
+  }
+
+  private static getSession(callId: string): IdentitySession {
+    let session = this.sessions.get(callId);
+    if (!session) {
+      session = { identity: {}, onConfirmed: [] };
+      this.sessions.set(callId, session);
+    }
+    return session;
+  }
+
+  private static formatPhone(phone: string): string | null {
+    let digits = phone.replace(/\D/g, '');
+    if (digits.length === 11 && digits.startsWith('1')) {
+      digits = digits.slice(1);
+    }
+    if (digits.length !== 10) return null;
+    return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`;
+  }
+
+  // Normalise MM/DD/YYYY, MM-DD-YYYY and YYYY-MM-DD to YYYY-MM-DD for comparison
+  static normalizeDate(date: string): string {
+    const trimmed = date.trim();
+    const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) {
+      return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+    }
+    const us = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+    if (us) {
+      return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+    }
+    return trimmed;
+  }
+
+  private static toTitleCase(value: string): string {
+    return value
+      .toLowerCase()
+      .split(/\s+/)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+}
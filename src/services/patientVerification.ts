@@ -0,0 +1,308 @@
+// Patient Verification for Elite Dental AI Widget
+// Challenges callers per verificationFlow, offers an SMS code as the fallback and locks out after repeated failures
+
+import { verificationFlow } from '../config/dental';
+import { airtableService, PatientRecord } from './airtableService';
+import { DentalService } from './dentalService';
+import { PatientIdentityCapture } from './patientIdentity';
+import { TemplateEngine } from './templateEngine';
+
+export type VerificationMethod = typeof verificationFlow.methods[number] | typeof verificationFlow.fallback;
+
+export type VerificationState = 'challenging' | 'sms_pending' | 'verified' | 'locked' | 'expired' | 'not_found';
+
+export interface VerificationChallenge {
+  state: VerificationState;
+  method?: VerificationMethod;
+  prompt: string; // instruction for the assistant
+  attemptsRemaining: number;
+}
+
+interface VerificationSession {
+  callId: string;
+  patient: PatientRecord;
+  state: VerificationState;
+  pending: VerificationMethod[]; // challenges still to pass, in configured order
+  failedAttempts: number;
+  startedAt: number;
+  smsCode?: string;
+  smsFailedAttempts: number;
+}
+
+const PROMPTS: Record<VerificationMethod, string> = {
+  phone: 'Ask the caller to confirm the phone number on their account.',
+  dob: 'Ask the caller for their date of birth.',
+  email: 'Ask the caller for the email address on their account.',
+  sms: 'A 6-digit code was texted to the phone number on file. Ask the caller to read it back.'
+};
+
+export class PatientVerification {
+  private static sessions: Map<string, VerificationSession> = new Map();
+  private static lockedPatients: Map<string, number> = new Map(); // patientId -> locked until (ms)
+  private static smsCodesSent: Map<string, number[]> = new Map(); // patientId -> when fallback codes were sent (ms)
+  private static failures: Map<string, number[]> = new Map(); // patientId -> when challenge answers failed (ms)
+
+  // Begin verification for the patient the caller claims to be, identified by phone number
+  static async start(callId: string, phone: string): Promise<VerificationChallenge> {
+    const patient = await airtableService.findPatientByPhone(phone);
+    if (!patient) {
+      this.sessions.delete(callId);
+      await this.logAttempt(callId, undefined, 'lookup', 'not_found');
+      return { state: 'not_found', prompt: 'No patient matches that phone number. Treat the caller as a new patient.', attemptsRemaining: 0 };
+    }
+
+    // Phone was used to find the record, so only challenge the factors the record can check
+    const pending = verificationFlow.methods.filter(method =>
+      method !== 'phone' && (method !== 'dob' || !!patient.dateOfBirth) && (method !== 'email' || !!patient.email)
+    );
+
+    const session: VerificationSession = {
+      callId,
+      patient,
+      state: 'challenging',
+      pending: [...pending],
+      failedAttempts: this.recentFailures(patient).length,
+      startedAt: Date.now(),
+      smsFailedAttempts: 0
+    };
+    this.sessions.set(callId, session);
+
+    // Failures count per patient across sessions, so starting over on a new call does not reset them
+    if (this.isLocked(patient) || session.failedAttempts >= verificationFlow.maxAttempts) {
+      session.state = 'locked';
+      await this.logAttempt(callId, patient, 'lookup', 'locked');
+      return this.describe(session);
+    }
+
+    await this.logAttempt(callId, patient, 'lookup', 'started');
+
+    // Records with no knowledge factors on file go straight to the SMS code
+    if (session.pending.length === 0) {
+      return this.requestSmsFallback(callId);
+    }
+
+    return this.describe(session);
+  }
+
+  // Check the caller's answer to the current challenge
+  static async answer(callId: string, response: string): Promise<VerificationChallenge> {
+    const session = this.sessions.get(callId);
+    if (!session) {
+      return { state: 'not_found', prompt: 'Verification has not been started. Ask for the phone number on the account.', attemptsRemaining: 0 };
+    }
+
+    if (this.hasExpired(session)) {
+      session.state = 'expired';
+      await this.logAttempt(callId, session.patient, 'session', 'expired');
+      return this.describe(session);
+    }
+
+    if (session.state === 'sms_pending') {
+      return this.checkSmsCode(session, response);
+    }
+    if (session.state !== 'challenging') {
+      return this.describe(session);
+    }
+
+    const method = session.pending[0];
+    const passed = this.matches(method, session.patient, response);
+    await this.logAttempt(callId, session.patient, method, passed ? 'passed' : 'failed');
+
+    if (passed) {
+      session.pending.shift();
+      if (session.pending.length === 0) {
+        this.markVerified(session);
+      }
+      return this.describe(session);
+    }
+
+    session.failedAttempts = this.recordFailure(session.patient);
+    if (session.failedAttempts >= verificationFlow.maxAttempts) {
+      this.lock(session);
+      await this.logAttempt(callId, session.patient, method, 'locked');
+    }
+
+    return this.describe(session);
+  }
+
+  // Text a one-time code to the phone number on file; nothing is sent while locked, and only
+  // verificationFlow.maxSmsCodes codes go out per patient in each lock window
+  static async requestSmsFallback(callId: string): Promise<VerificationChallenge> {
+    const session = this.sessions.get(callId);
+    if (!session) {
+      return { state: 'not_found', prompt: 'Verification has not been started.', attemptsRemaining: 0 };
+    }
+    if (session.state === 'verified') {
+      return this.describe(session);
+    }
+    if (session.state === 'locked' || this.isLocked(session.patient)) {
+      session.state = 'locked';
+      session.smsCode = undefined;
+      await this.logAttempt(callId, session.patient, verificationFlow.fallback, 'locked');
+      return this.describe(session);
+    }
+
+    const windowStart = Date.now() - verificationFlow.timeoutMinutes * 60 * 1000;
+    const sent = (this.smsCodesSent.get(session.patient.id!) || []).filter(sentAt => sentAt > windowStart);
+    if (sent.length >= verificationFlow.maxSmsCodes) {
+      this.lock(session);
+      await this.logAttempt(callId, session.patient, verificationFlow.fallback, 'locked');
+      return this.describe(session);
+    }
+    this.smsCodesSent.set(session.patient.id!, [...sent, Date.now()]);
+
+    session.smsCode = this.generateCode();
+    session.smsFailedAttempts = 0;
+    session.state = 'sms_pending';
+    session.startedAt = Date.now();
+
+    const message = TemplateEngine.renderText(
+      'verification_code',
+      { code: session.smsCode, minutes: verificationFlow.timeoutMinutes },
+      { language: session.patient.preferredLanguage }
+    );
+    DentalService.sendTextMessage(session.patient.phone, message, 'verification');
+    await this.logAttempt(callId, session.patient, verificationFlow.fallback, 'code_sent');
+
+    return this.describe(session);
+  }
+
+  static isVerified(callId: string): boolean {
+    return this.sessions.get(callId)?.state === 'verified';
+  }
+
+  static endSession(callId: string): void {
+    this.sessions.delete(callId);
+  }
+
+  private static async checkSmsCode(session: VerificationSession, response: string): Promise<VerificationChallenge> {
+    const passed = !!session.smsCode && response.replace(/\D/g, '') === session.smsCode;
+    await this.logAttempt(session.callId, session.patient, verificationFlow.fallback, passed ? 'passed' : 'failed');
+
+    if (passed) {
+      this.markVerified(session);
+      return this.describe(session);
+    }
+
+    session.smsFailedAttempts++;
+    if (session.smsFailedAttempts >= verificationFlow.maxAttempts) {
+      this.lock(session);
+      await this.logAttempt(session.callId, session.patient, verificationFlow.fallback, 'locked');
+    }
+
+    return this.describe(session);
+  }
+
+  private static markVerified(session: VerificationSession): void {
+    session.state = 'verified';
+    session.smsCode = undefined;
+    this.lockedPatients.delete(session.patient.id!);
+    this.smsCodesSent.delete(session.patient.id!);
+    this.failures.delete(session.patient.id!);
+    PatientIdentityCapture.linkPatient(session.callId, session.patient);
+  }
+
+  private static matches(method: VerificationMethod, patient: PatientRecord, response: string): boolean {
+    switch (method) {
+      case 'dob': {
+        const spoken = PatientIdentityCapture.extractDateOfBirth(response, true);
+        return !!spoken && !!patient.dateOfBirth &&
+          PatientIdentityCapture.normalizeDate(spoken) === PatientIdentityCapture.normalizeDate(patient.dateOfBirth);
+      }
+      case 'email': {
+        // Accept spoken forms such as "jane dot doe at gmail dot com"
+        const spoken = response.toLowerCase()
+          .replace(/\s+at\s+/g, '@')
+          .replace(/\s+dot\s+/g, '.')
+          .replace(/\s+/g, '');
+        return !!patient.email && spoken === patient.email.trim().toLowerCase();
+      }
+      case 'phone':
+        return response.replace(/\D/g, '').slice(-10) === patient.phone.replace(/\D/g, '').slice(-10);
+      default:
+        return false;
+    }
+  }
+
+  private static describe(session: VerificationSession): VerificationChallenge {
+    const attemptsRemaining = session.state === 'sms_pending'
+      ? verificationFlow.maxAttempts - session.smsFailedAttempts
+      : verificationFlow.maxAttempts - session.failedAttempts;
+
+    switch (session.state) {
+      case 'challenging':
+        return { state: 'challenging', method: session.pending[0], prompt: PROMPTS[session.pending[0]], attemptsRemaining };
+      case 'sms_pending':
+        return { state: 'sms_pending', method: verificationFlow.fallback, prompt: PROMPTS.sms, attemptsRemaining };
+      case 'verified':
+        return { state: 'verified', prompt: `Caller verified as ${session.patient.patientName}.`, attemptsRemaining };
+      case 'locked':
+        return { state: 'locked', prompt: 'Verification is locked. Do not discuss account details; offer a callback from the front desk.', attemptsRemaining: 0 };
+      case 'expired':
+        return { state: 'expired', prompt: 'Verification timed out. Start again if the caller still needs account access.', attemptsRemaining: 0 };
+      default:
+        return { state: session.state, prompt: '', attemptsRemaining: 0 };
+    }
+  }
+
+  private static lock(session: VerificationSession): void {
+    session.state = 'locked';
+    session.smsCode = undefined;
+    this.lockedPatients.set(session.patient.id!, Date.now() + verificationFlow.timeoutMinutes * 60 * 1000);
+  }
+
+  private static recentFailures(patient: PatientRecord): number[] {
+    const windowStart = Date.now() - verificationFlow.timeoutMinutes * 60 * 1000;
+    return (this.failures.get(patient.id!) || []).filter(failedAt => failedAt > windowStart);
+  }
+
+  // Returns the patient's failures in the current window, including this one
+  private static recordFailure(patient: PatientRecord): number {
+    const failures = [...this.recentFailures(patient), Date.now()];
+    this.failures.set(patient.id!, failures);
+    return failures.length;
+  }
+
+  private static isLocked(patient: PatientRecord): boolean {
+    const lockedUntil = this.lockedPatients.get(patient.id!);
+    if (lockedUntil && lockedUntil > Date.now()) {
+      return true;
+    }
+    this.lockedPatients.delete(patient.id!);
+    return false;
+  }
+
+  private static hasExpired(session: VerificationSession): boolean {
+    return Date.now() - session.startedAt > verificationFlow.timeoutMinutes * 60 * 1000;
+  }
+
+  private static generateCode(): string {
+    const values = new Uint32Array(1);
+    crypto.getRandomValues(values);
+    return (values[0] % 1000000).toString().padStart(6, '0');
+  }
+
+  // Every attempt goes to the compliance log; logging failures never block the caller
+  private static async logAttempt(
+    callId: string,
+    patient: PatientRecord | undefined,
+    method: string,
+    outcome: string
+  ): Promise<void> {
+    if (!verificationFlow.auditLog) return;
+
+    try {
+      await airtableService.logHIPAACompliance({
+        action: 'patient_verification',
+        dataType: method,
+        redacted: true,
+        userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
+        patientId: patient?.id,
+        outcome,
+        sessionId: callId
+      });
+    } catch (error) {
+      console.error('Failed to log verification attempt:', error);
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Provider Roster for Elite Dental AI Widget
+// Matches procedures to qualified providers and tracks working hours, chairs and time off
+
+import { procedureConfig, providerRoster } from '../config/dental';
+import { ClinicTime, Weekday } from '../utils/clinicTime';
+import type { AppointmentRecord } from './airtableService';
+
+export type ProviderRole = 'dentist' | 'hygienist' | 'periodontist' | 'oral_surgeon';
+
+export interface ProviderProfile {
+  id: string;
+  name: string;
+  role: ProviderRole;
+  hours: Partial<Record<Weekday, { readonly open: string; readonly close: string }>>;
+  chairs: readonly string[];
+  timeOff: readonly { start: string; end: string; reason?: string }[]; // inclusive YYYY-MM-DD dates
+}
+
+export class ProviderRoster {
+  private static providers: readonly ProviderProfile[] = providerRoster;
+
+  static getProviders(): readonly ProviderProfile[] {
+    return this.providers;
+  }
+
+  // Accepts either the roster id or the display name stored on AppointmentRecord.provider
+  static getProvider(idOrName: string): ProviderProfile | null {
+    return this.providers.find(provider => provider.id === idOrName || provider.name === idOrName) || null;
+  }
+
+  static getRequiredRoles(procedure: string): ProviderRole[] {
+    const config = procedureConfig[procedure as keyof typeof procedureConfig];
+    if (!config || !('providers' in config)) {
+      return [];
+    }
+    return [...config.providers] as ProviderRole[];
+  }
+
+  static getEligibleProviders(procedure: string): ProviderProfile[] {
+    const roles = this.getRequiredRoles(procedure);
+    return this.providers.filter(provider => roles.includes(provider.role));
+  }
+
+  static canPerform(provider: ProviderProfile, procedure: string): boolean {
+    return this.getRequiredRoles(procedure).includes(provider.role);
+  }
+
+  static isOnTimeOff(provider: ProviderProfile, date: string): boolean {
+    return provider.timeOff.some(period => date >= period.start && date <= period.end);
+  }
+
+  // Whether the provider is on shift for the whole [start, end) window on a clinic-local date
+  static isWorking(provider: ProviderProfile, date: string, start: number, end: number): boolean {
+    if (this.isOnTimeOff(provider, date)) {
+      return false;
+    }
+
+    const shift = provider.hours[ClinicTime.getWeekday(date)];
+    if (!shift) {
+      return false;
+    }
+
+    return start >= ClinicTime.toMinutes(shift.open) && end <= ClinicTime.toMinutes(shift.close);
+  }
+
+  static isAssignedTo(provider: ProviderProfile, appointment: AppointmentRecord): boolean {
+    return appointment.providerId === provider.id || appointment.provider === provider.name;
+  }
+}
@@ -1,181 +1,234 @@
+import { procedureConfig, recallCatalog, recallSettings, ProcedureType, RecallType } from '../config/dental';
+import { airtableService, AppointmentRecord, PatientRecord, RecallRecord } from './airtableService';
+import { RecallCadence, RecallCadenceChannel } from './recallCadence';
+import { SchedulingEngine } from './schedulingEngine';
+import { OutboundQueue, QueuedMessage } from './outboundQueue';
+import { TemplateEngine } from './templateEngine';
+import { VoiceReminders } from './voiceReminders';
+import { ClinicTime } from '../utils/clinicTime';
+
+const OPEN_STATUSES: RecallRecord['status'][] = ['due', 'overdue', 'contacted'];
+
+// One recallCatalog entry
 export interface RecallConfig {
   interval: number; // months
   autoBook: boolean;
-  reminderDays: number[];
+  reminderDays: readonly number[];
   priority: 'high' | 'medium' | 'low';
+  procedures: readonly ProcedureType[];
 }
 
+// App-side view of a Recalls table row (RecallRecord) - dates as Date, procedure as the recall type
 export interface PatientRecall {
   id: string;
+  patientId: string;
   patientName: string;
   lastVisit: Date;
-  procedure: string;
+  procedure: RecallType;
   nextDue: Date;
-  status: 'due' | 'overdue' | 'scheduled' | 'contacted';
+  status: RecallRecord['status'];
   contactAttempts: number;
+  lastContactDate?: string;
+  remindersSent: number; // cadence steps already handled
   preferredContact: 'sms' | 'email' | 'call';
   estimatedRevenue: number;
+  appointmentId?: string; // set only once a visit is actually booked
+  phone?: string;
+  email?: string;
+  preferredLanguage?: string;
+  letterStatus?: RecallRecord['letterStatus'];
+  notes?: string;
+}
+
+// pending: an SMS waiting on its carrier report or a retry, a call in progress or a letter to print - the recall
+// moves to contacted only once delivery is confirmed
+export type RecallContactOutcome = 'pending' | 'failed' | 'scheduled';
+
+export interface RecallCampaignResult {
+  patientName: string;
+  method: string;
+  outcome: RecallContactOutcome;
+  revenue: number;
+  step?: string; // cadence step key, e.g. overdue-60d
+}
+
+export interface RecallCampaignSummary {
+  contacted: number; // reminders sent or calls placed this run
+  scheduled: number;
+  potentialRevenue: number;
+  campaignResults: RecallCampaignResult[];
 }
 
 export class RecallAutomator {
-  private static recallConfigs: Record<string, RecallConfig> = {
-    cleaning: { 
-      interval: 6, 
-      autoBook: true, 
-      reminderDays: [30, 14, 7, 1],
-      priority: 'medium'
-    },
-    crown: { 
-      interval: 12, 
-      autoBook: false, 
-      reminderDays: [60, 30, 14],
-      priority: 'low'
-    },
-    implant: { 
-      interval: 24, 
-      autoBook: true, 
-      reminderDays: [90, 60, 30, 14],
-      priority: 'high'
-    },
-    periodontal: {
-      interval: 3,
-      autoBook: true,
-      reminderDays: [14, 7, 3, 1],
-      priority: 'high'
-    },
-    filling: {
-      interval: 24,
-      autoBook: false,
-      reminderDays: [60, 30, 14],
-      priority: 'low'
-    },
-    extraction: {
-      interval: 1,
-      autoBook: true,
-      reminderDays: [7, 3, 1],
-      priority: 'high'
+  private static campaignIntervalMs = 60 * 60 * 1000;
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static stopDeliveryUpdates: (() => void) | null = null;
+  private static running: Promise<RecallCampaignSummary> | null = null;
+
+  static getRecallConfig(recallType: RecallType): RecallConfig {
+    const config: RecallConfig | undefined = recallCatalog[recallType];
+    if (!config) {
+      // Only reachable with a Recalls row whose recallType is not in the catalog
+      console.warn(`Unknown recall type "${recallType}" - using the cleaning cadence`);
+      return recallCatalog.cleaning;
     }
-  };
-
-  private static patientRecalls: PatientRecall[] = [
-    {
-      id: '1',
-      patientName: 'Sarah Johnson',
-      lastVisit: new Date('2024-02-15'),
-      procedure: 'cleaning',
-      nextDue: new Date('2024-08-15'),
-      status: 'overdue',
-      contactAttempts: 2,
-      preferredContact: 'sms',
-      estimatedRevenue: 180
-    },
-    {
-      id: '2',
-      patientName: 'Mike Chen',
-      lastVisit: new Date('2024-01-20'),
-      procedure: 'crown',
-      nextDue: new Date('2025-01-20'),
-      status: 'due',
-      contactAttempts: 0,
-      preferredContact: 'email',
-      estimatedRevenue: 1200
-    },
-    {
-      id: '3',
-      patientName: 'Emma Davis',
-      lastVisit: new Date('2023-12-10'),
-      procedure: 'periodontal',
-      nextDue: new Date('2024-03-10'),
-      status: 'overdue',
-      contactAttempts: 3,
-      preferredContact: 'call',
-      estimatedRevenue: 350
-    },
-    {
-      id: '4',
-      patientName: 'John Smith',
-      lastVisit: new Date('2024-07-01'),
-      procedure: 'cleaning',
-      nextDue: new Date('2025-01-01'),
-      status: 'due',
-      contactAttempts: 0,
-      preferredContact: 'sms',
-      estimatedRevenue: 180
+    return config;
+  }
+
+  // Problems with recallCatalog and recallSettings, one line each; every bookable procedure must start a recall
+  // or be listed in recallSettings.noRecallProcedures
+  static validateCatalog(): string[] {
+    const problems: string[] = [];
+    const procedures = Object.keys(procedureConfig) as ProcedureType[];
+    const noRecall = recallSettings.noRecallProcedures as readonly string[];
+    const owners: Partial<Record<ProcedureType, RecallType>> = {};
+
+    (Object.entries(recallCatalog) as Array<[RecallType, RecallConfig]>).forEach(([type, config]) => {
+      if (!Number.isInteger(config.interval) || config.interval <= 0) {
+        problems.push(`${type}: interval must be a whole number of months, got ${config.interval}`);
+      }
+      if (new Set(config.reminderDays).size !== config.reminderDays.length) {
+        problems.push(`${type}: reminderDays has duplicates`);
+      }
+      config.reminderDays.forEach(days => {
+        if (!Number.isInteger(days) || days <= 0) {
+          problems.push(`${type}: reminder day ${days} must be a positive whole number`);
+        } else if (days >= config.interval * 28) {
+          problems.push(`${type}: reminder ${days} days ahead does not fit its ${config.interval}-month interval`);
+        }
+      });
+      config.procedures.forEach(procedure => {
+        if (!procedures.includes(procedure)) {
+          problems.push(`${type}: unknown procedure "${procedure}"`);
+        } else if (owners[procedure]) {
+          problems.push(`${procedure}: starts both the ${owners[procedure]} and ${type} recalls`);
+        } else if (noRecall.includes(procedure)) {
+          problems.push(`${procedure}: listed under ${type} and in recallSettings.noRecallProcedures`);
+        }
+        owners[procedure] = owners[procedure] || type;
+      });
+    });
+
+    noRecall.filter(procedure => !procedures.includes(procedure as ProcedureType)).forEach(procedure => {
+      problems.push(`recallSettings.noRecallProcedures: unknown procedure "${procedure}"`);
+    });
+    procedures.filter(procedure => !owners[procedure] && !noRecall.includes(procedure)).forEach(procedure => {
+      problems.push(`${procedure}: no recall type - add it to a recallCatalog entry or recallSettings.noRecallProcedures`);
+    });
+
+    return problems;
+  }
+
+  // Open recalls due within the next 30 days or already overdue, soonest first
+  static async getDueRecalls(): Promise<PatientRecall[]> {
+    const dueBy = ClinicTime.addDays(ClinicTime.getClinicDateParts().date, 30);
+    const records = await airtableService.getRecalls({ statuses: OPEN_STATUSES, dueBy });
+    return records.map(record => this.toPatientRecall(record));
+  }
+
+  static async getOverdueRecalls(): Promise<PatientRecall[]> {
+    const today = ClinicTime.getClinicDateParts().date;
+    const records = await airtableService.getRecalls({ statuses: OPEN_STATUSES, dueBy: ClinicTime.addDays(today, -1) });
+    return records.map(record => this.toPatientRecall(record));
+  }
+
+  // Run the cadence step due today for every open recall; a run requested mid-run waits for the current one
+  static async processRecallCampaign(): Promise<RecallCampaignSummary> {
+    if (this.running) {
+      return this.running;
+    }
+
+    this.running = this.runCampaign();
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
     }
-  ];
-
-  static getRecallConfig(procedure: string): RecallConfig {
-    return this.recallConfigs[procedure] || { 
-      interval: 6, 
-      autoBook: false, 
-      reminderDays: [30, 14, 7],
-      priority: 'medium'
-    };
   }
 
-  static getDueRecalls(): PatientRecall[] {
-    const today = new Date();
-    return this.patientRecalls.filter(recall => {
-      const daysDiff = Math.floor((today.getTime() - recall.nextDue.getTime()) / (1000 * 60 * 60 * 24));
-      return daysDiff >= -30; // Due within 30 days or overdue
-    }).sort((a, b) => a.nextDue.getTime() - b.nextDue.getTime());
+  static start(): void {
+    if (this.timer) return;
+
+    this.stopDeliveryUpdates = OutboundQueue.onDelivery((message, outcome, detail) => {
+      this.handleSmsDelivery(message, outcome, detail).catch(error => console.error('Recall delivery update failed:', error));
+    });
+
+    this.timer = setInterval(() => {
+      this.processRecallCampaign().catch(error => console.error('Recall campaign failed:', error));
+    }, this.campaignIntervalMs);
+    this.processRecallCampaign().catch(error => console.error('Recall campaign failed:', error));
   }
 
-  static getOverdueRecalls(): PatientRecall[] {
-    const today = new Date();
-    return this.patientRecalls.filter(recall => 
-      recall.nextDue.getTime() < today.getTime()
-    ).sort((a, b) => a.nextDue.getTime() - b.nextDue.getTime());
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stopDeliveryUpdates?.();
+    this.stopDeliveryUpdates = null;
   }
 
-  static async processRecallCampaign(): Promise<{
-    contacted: number;
-    scheduled: number;
-    potentialRevenue: number;
-    campaignResults: Array<{
-      patientName: string;
-      method: string;
-      success: boolean;
-      revenue: number;
-    }>;
-  }> {
-    const dueRecalls = this.getDueRecalls();
-    const campaignResults: Array<{
-      patientName: string;
-      method: string;
-      success: boolean;
-      revenue: number;
-    }> = [];
+  // Only a booked, linked appointment counts as scheduled; routine reminders stop after recallSettings.maxAttempts,
+  // but the overdue escalations always run
+  private static async runCampaign(): Promise<RecallCampaignSummary> {
+    await this.syncCompletedAppointments();
+    await this.reconcileScheduledRecalls();
+
+    const today = ClinicTime.getClinicDateParts().date;
+    const lookahead = Math.max(...Object.values(recallCatalog).flatMap(config => config.reminderDays));
+    const records = await airtableService.getRecalls({ statuses: OPEN_STATUSES, dueBy: ClinicTime.addDays(today, lookahead) });
+    const campaignResults: RecallCampaignResult[] = [];
 
     let contacted = 0;
     let scheduled = 0;
     let potentialRevenue = 0;
 
-    for (const recall of dueRecalls) {
-      if (recall.contactAttempts < 3) {
-        const success = await this.contactPatient(recall);
-        
+    for (const recall of records.map(record => this.toPatientRecall(record))) {
+      // Booked some other way (front desk, inbound call) since the recall went out
+      const linked = await this.findLinkedAppointment(recall, today);
+      if (linked) {
+        await this.saveRecall(recall, { status: 'scheduled', appointmentId: linked.id });
+        scheduled++;
+        potentialRevenue += recall.estimatedRevenue;
         campaignResults.push({
           patientName: recall.patientName,
-          method: recall.preferredContact,
-          success,
-          revenue: success ? recall.estimatedRevenue : 0
+          method: 'appointment',
+          outcome: 'scheduled',
+          revenue: recall.estimatedRevenue
         });
+        continue;
+      }
+
+      const plan = RecallCadence.getPlan(recall, this.getRecallConfig(recall.procedure));
+      const stepIndex = RecallCadence.findDueStep(plan, today, recall.remindersSent);
+      if (stepIndex < 0) continue;
+      const step = plan[stepIndex];
+      if (!step.escalation && recall.contactAttempts >= recallSettings.maxAttempts) continue;
+
+      // Record progress first so a crash mid-send can never repeat the step
+      if (!(await this.saveRecall(recall, { remindersSent: stepIndex + 1 }))) continue;
 
+      const { method, outcome } = await this.contactPatient(recall, step.channel);
+      campaignResults.push({ patientName: recall.patientName, method, outcome, revenue: 0, step: step.key });
+
+      if (outcome === 'pending') {
         contacted++;
-        
-        if (success) {
-          scheduled++;
-          potentialRevenue += recall.estimatedRevenue;
-          recall.status = 'scheduled';
-        }
-        
-        recall.contactAttempts++;
       }
+
+      const attempts = recall.contactAttempts + 1;
+      const updates: Partial<RecallRecord> = {
+        contactAttempts: attempts,
+        lastContactDate: today,
+        status: this.openStatus(recall, today)
+      };
+      if (!step.escalation && attempts === recallSettings.maxAttempts) {
+        updates.notes = this.appendNote(recall.notes, `Recall reminders stopped after ${attempts} attempts - overdue escalations still run (${today})`);
+      }
+      await this.saveRecall(recall, updates);
     }
 
     console.log(`📞 RECALL CAMPAIGN COMPLETE: ${contacted} contacted, ${scheduled} scheduled`);
-    console.log(`💰 POTENTIAL REVENUE: $${potentialRevenue.toLocaleString()}`);
+    console.log(`💰 BOOKED REVENUE: $${potentialRevenue.toLocaleString()}`);
 
     return {
       contacted,
@@ -185,85 +238,135 @@ export class RecallAutomator {
     };
   }
 
-  private static async contactPatient(recall: PatientRecall): Promise<boolean> {
-    const config = this.getRecallConfig(recall.procedure);
-    
-    // Simulate contact success rate based on method and priority
-    const successRates = {
-      sms: 0.75,
-      email: 0.45,
-      call: 0.65
-    };
+  // Nothing here counts as contact yet: an SMS is settled by its carrier report (handleSmsDelivery), a call by
+  // its end-of-call report, and a certified letter once the front desk prints and mails it
+  private static async contactPatient(
+    recall: PatientRecall,
+    channel: RecallCadenceChannel
+  ): Promise<{ method: string; outcome: RecallContactOutcome }> {
+    const patient = recall.patientId ? await this.loadPatient(recall) : null;
+    if (!recall.preferredLanguage) {
+      recall.preferredLanguage = patient?.preferredLanguage;
+    }
 
-    const priorityMultiplier = {
-      high: 1.2,
-      medium: 1.0,
-      low: 0.8
-    };
+    if (channel === 'certified_mail') {
+      try {
+        await RecallCadence.queueLetter(recall, patient);
+        return { method: 'certified_mail', outcome: 'pending' };
+      } catch (error) {
+        console.error(`✉️ Could not queue the recall letter for ${recall.patientName}:`, error);
+        return { method: 'certified_mail', outcome: 'failed' };
+      }
+    }
 
-    const baseSuccessRate = successRates[recall.preferredContact];
-    const finalSuccessRate = Math.min(0.95, baseSuccessRate * priorityMultiplier[config.priority]);
-    const success = Math.random() < finalSuccessRate;
+    const calling = channel === 'call' || channel === 'priority_call';
+    if (calling && recall.phone && VoiceReminders.isAvailable()) {
+      const call = await VoiceReminders.callForRecall(recall);
+      // A priority call is also followed by a text so the patient has the number to call back
+      if (call.status === 'started' && channel === 'call') {
+        return { method: 'call', outcome: 'pending' };
+      }
+      if (call.status !== 'started') {
+        console.error(`📞 Recall call to ${recall.patientName} failed - texting instead:`, call.error);
+      }
+    }
 
-    // Send appropriate message
-    if (success) {
-      await this.sendRecallMessage(recall);
+    // There is no email sender yet, so email-preferring patients with a phone are texted
+    if (!recall.phone) {
+      console.warn(`No phone number on recall ${recall.id} for ${recall.patientName} - nothing sent`);
+      return { method: channel, outcome: 'failed' };
     }
 
-    return success;
+    const message = TemplateEngine.renderText(
+      this.toDateString(recall.nextDue) < ClinicTime.getClinicDateParts().date ? 'recall_overdue' : 'recall_notice',
+      { name: recall.patientName, procedure: recall.procedure },
+      { language: recall.preferredLanguage }
+    );
+
+    const result = await OutboundQueue.send(recall.phone, message, 'recall', { recallId: recall.id });
+    const method = channel === 'priority_call' ? 'priority_call' : 'sms';
+    if (result.status === 'dead_lettered') {
+      console.error(`📱 Recall SMS to ${recall.patientName} failed:`, result.error);
+      return { method, outcome: 'failed' };
+    }
+    if (result.status === 'duplicate') {
+      console.warn(`📱 Recall SMS to ${recall.patientName} skipped - the same text went out recently`);
+      return { method, outcome: 'failed' };
+    }
+    return { method, outcome: 'pending' };
   }
 
-  private static async sendRecallMessage(recall: PatientRecall): Promise<void> {
-    const config = this.getRecallConfig(recall.procedure);
-    
-    let message = `
-🦷 ELITE DENTAL RECALL REMINDER
+  // A recall text the carrier delivered marks its recall contacted; one that was dead-lettered is noted on the row
+  private static async handleSmsDelivery(message: QueuedMessage, outcome: 'delivered' | 'failed', detail?: string): Promise<void> {
+    const recallId = message.type === 'recall' ? message.metadata?.recallId : undefined;
+    if (typeof recallId !== 'string' || !recallId) return;
 
-Hi ${recall.patientName}!
+    const record = await airtableService.getRecall(recallId);
+    if (!record || !OPEN_STATUSES.includes(record.status)) return;
 
-It's time for your ${recall.procedure} follow-up appointment.
-`;
+    if (outcome === 'delivered') {
+      await airtableService.updateRecall(recallId, {
+        status: 'contacted',
+        lastContactDate: ClinicTime.getClinicDateParts().date
+      });
+      return;
+    }
+
+    await airtableService.updateRecall(recallId, {
+      notes: this.appendNote(record.notes, `Recall text not delivered: ${detail || 'unknown reason'}`)
+    });
+  }
 
-    if (recall.status === 'overdue') {
-      message += `
-⚠️ You're overdue for your ${recall.procedure} care.
-Delaying treatment may lead to complications.
-`;
+  private static async loadPatient(recall: PatientRecall): Promise<PatientRecord | null> {
+    try {
+      return await airtableService.getPatient(recall.patientId);
+    } catch (error) {
+      console.error(`Could not load patient ${recall.patientId} for recall ${recall.id}:`, error);
+      return null;
     }
+  }
 
-    if (config.autoBook) {
-      message += `
-📅 EASY BOOKING OPTIONS:
-• Reply with preferred day/time
-• Call (555) 123-DENTAL
-• Book online: elite-dental.com/book
+  // Scheduled recalls whose appointment was cancelled, missed or never linked go back to being due
+  private static async reconcileScheduledRecalls(): Promise<void> {
+    const today = ClinicTime.getClinicDateParts().date;
+    const scheduled = (await airtableService.getRecalls({ statuses: ['scheduled'] })).map(record => this.toPatientRecall(record));
 
-💰 Estimated cost: $${recall.estimatedRevenue}
-🏥 Insurance accepted
-`;
-    } else {
-      message += `
-📞 Please call (555) 123-DENTAL to schedule
-💰 Estimated cost: $${recall.estimatedRevenue}
-`;
+    for (const recall of scheduled) {
+      const appointment = recall.appointmentId ? await airtableService.getAppointment(recall.appointmentId) : null;
+      if (appointment && appointment.status !== 'cancelled' && appointment.status !== 'no-show') continue;
+
+      await this.saveRecall(recall, {
+        status: this.openStatus({ ...recall, status: 'due' }, today),
+        appointmentId: '',
+        notes: this.appendNote(recall.notes, appointment ? `Linked appointment ${appointment.status}` : 'No linked appointment found')
+      });
     }
+  }
 
-    message += `
-Thank you for trusting Elite Dental with your care!
-    `.trim();
+  private static async findLinkedAppointment(recall: PatientRecall, today: string): Promise<AppointmentRecord | null> {
+    if (!recall.phone) return null;
 
-    console.log(`📱 Recall message sent to ${recall.patientName} via ${recall.preferredContact}:`, message);
+    const wanted = SchedulingEngine.resolveProcedure(recall.procedure) || recall.procedure;
+    const upcoming = await airtableService.findUpcomingAppointmentsByPhone(recall.phone, today);
+    return upcoming.find(appointment =>
+      (!recall.patientId || appointment.patientId === recall.patientId) &&
+      (SchedulingEngine.resolveProcedure(appointment.procedure) || appointment.procedure.toLowerCase()) === wanted
+    ) || null;
   }
 
-  static getRecallStats(): {
+  static async getRecallStats(): Promise<{
     totalDue: number;
     totalOverdue: number;
     potentialRevenue: number;
     byProcedure: Record<string, number>;
     contactSuccessRate: number;
-  } {
-    const dueRecalls = this.getDueRecalls();
-    const overdueRecalls = this.getOverdueRecalls();
+  }> {
+    const allRecalls = (await airtableService.getRecalls()).map(record => this.toPatientRecall(record));
+    const today = ClinicTime.getClinicDateParts().date;
+    const dueBy = ClinicTime.addDays(today, 30);
+    const openRecalls = allRecalls.filter(recall => OPEN_STATUSES.includes(recall.status));
+    const dueRecalls = openRecalls.filter(recall => this.toDateString(recall.nextDue) <= dueBy);
+    const overdueRecalls = openRecalls.filter(recall => this.toDateString(recall.nextDue) < today);
     
     const potentialRevenue = dueRecalls.reduce((sum, recall) => sum + recall.estimatedRevenue, 0);
     
@@ -272,9 +375,12 @@ Thank you for trusting Elite Dental with your care!
       return acc;
     }, {} as Record<string, number>);
 
-    const totalContacts = this.patientRecalls.reduce((sum, recall) => sum + recall.contactAttempts, 0);
-    const successfulContacts = this.patientRecalls.filter(recall => recall.status === 'scheduled').length;
-    const contactSuccessRate = totalContacts > 0 ? (successfulContacts / totalContacts) * 100 : 0;
+    // Share of contacted recalls that ended in a real booking
+    const contactedRecalls = allRecalls.filter(recall => recall.contactAttempts > 0);
+    const bookedRecalls = contactedRecalls.filter(recall =>
+      (recall.status === 'scheduled' || recall.status === 'completed') && !!recall.appointmentId
+    );
+    const contactSuccessRate = contactedRecalls.length > 0 ? (bookedRecalls.length / contactedRecalls.length) * 100 : 0;
 
     return {
       totalDue: dueRecalls.length,
@@ -285,30 +391,172 @@ Thank you for trusting Elite Dental with your care!
     };
   }
 
-  static addPatientRecall(patientData: {
+  static async addPatientRecall(patientData: {
+    patientId: string;
     patientName: string;
-    procedure: string;
+    phone: string;
+    email?: string;
+    procedure: RecallType;
     lastVisit: Date;
     preferredContact: 'sms' | 'email' | 'call';
     estimatedRevenue?: number;
-  }): void {
+  }): Promise<PatientRecall> {
     const config = this.getRecallConfig(patientData.procedure);
-    const nextDue = new Date(patientData.lastVisit);
-    nextDue.setMonth(nextDue.getMonth() + config.interval);
+    const lastVisitDate = this.toDateString(patientData.lastVisit);
+    const nextDueDate = ClinicTime.addMonths(lastVisitDate, config.interval);
 
-    const newRecall: PatientRecall = {
-      id: Date.now().toString(),
+    const record = await airtableService.createRecall({
+      patientId: patientData.patientId,
       patientName: patientData.patientName,
-      lastVisit: patientData.lastVisit,
-      procedure: patientData.procedure,
-      nextDue,
-      status: 'due',
-      contactAttempts: 0,
-      preferredContact: patientData.preferredContact,
+      phone: patientData.phone,
+      email: patientData.email,
+      lastVisitDate,
+      lastProcedure: patientData.procedure,
+      nextDueDate,
+      recallType: patientData.procedure,
+      intervalMonths: config.interval,
+      preferredContactMethod: patientData.preferredContact,
       estimatedRevenue: patientData.estimatedRevenue || 200
+    });
+
+    console.log(`➕ Added recall for ${patientData.patientName}: ${patientData.procedure} due ${nextDueDate}`);
+    return this.toPatientRecall(record);
+  }
+
+  // Recall type a visit's procedure belongs to, e.g. "Deep cleaning" -> cleaning, "Wisdom tooth extraction" -> extraction
+  static getRecallType(procedure: string): RecallType | null {
+    const normalized = (procedure || '').toLowerCase().trim();
+    const types = Object.keys(recallCatalog) as RecallType[];
+    const named = types.find(type => normalized.includes(type));
+    if (named) return named;
+
+    const resolved = SchedulingEngine.resolveProcedure(normalized);
+    if (!resolved) return null;
+    return types.find(type => (recallCatalog[type].procedures as readonly ProcedureType[]).includes(resolved)) || null;
+  }
+
+  // Close the patient's open recalls this visit satisfies and open the next one from the procedure's interval
+  static async handleAppointmentCompleted(appointment: AppointmentRecord): Promise<PatientRecall | null> {
+    if (appointment.status !== 'completed' || !appointment.id) return null;
+
+    const recallType = this.getRecallType(appointment.procedure);
+    if (!recallType) return null;
+
+    const visitDate = appointment.appointmentDate;
+    const recalls = appointment.patientId
+      ? await airtableService.getRecalls({ patientId: appointment.patientId })
+      : (await airtableService.findRecallsByPhone(appointment.phone)).filter(recall => !recall.patientId);
+    const sameType = recalls.filter(recall => recall.recallType === recallType);
+
+    // A later visit of the same kind already set the cycle
+    if (sameType.some(recall => recall.lastVisitDate > visitDate)) return null;
+
+    // Re-run after a failed appointment update: this visit's recall is already open
+    const current = sameType.find(recall => recall.lastVisitDate === visitDate && recall.status !== 'completed');
+    const previous = recalls.filter(recall =>
+      recall !== current &&
+      recall.status !== 'completed' &&
+      (recall.recallType === recallType || recall.appointmentId === appointment.id)
+    );
+
+    for (const recall of previous) {
+      await airtableService.updateRecall(recall.id!, {
+        status: 'completed',
+        appointmentId: appointment.id,
+        notes: this.appendNote(recall.notes, `Completed by ${appointment.procedure} visit on ${visitDate}`)
+      });
+    }
+
+    let next: PatientRecall;
+    if (current) {
+      next = this.toPatientRecall(current);
+    } else {
+      const patient = appointment.patientId ? await airtableService.getPatient(appointment.patientId) : null;
+      const template = previous.find(recall => recall.recallType === recallType);
+      next = await this.addPatientRecall({
+        patientId: appointment.patientId,
+        patientName: appointment.patientName,
+        phone: appointment.phone,
+        email: patient?.email || template?.email,
+        procedure: recallType,
+        lastVisit: ClinicTime.clinicTimeToDate(visitDate, '00:00'),
+        preferredContact: patient?.preferredContactMethod || template?.preferredContactMethod || 'sms',
+        estimatedRevenue: template?.estimatedRevenue || appointment.estimatedCost
+      });
+    }
+
+    await airtableService.updateAppointment(appointment.id, { recallId: next.id });
+    console.log(
+      `📅 ${appointment.patientName}'s ${appointment.procedure} visit closed ${previous.length} recall(s) - next ${recallType} due ${this.toDateString(next.nextDue)}`
+    );
+    return next;
+  }
+
+  // Completed visits are usually marked in Airtable by the front desk, so recent ones are picked up here
+  static async syncCompletedAppointments(): Promise<number> {
+    const today = ClinicTime.getClinicDateParts().date;
+    const history = await airtableService.getAppointmentHistory(
+      ClinicTime.addDays(today, -recallSettings.completionLookbackDays),
+      today
+    );
+
+    let opened = 0;
+    for (const appointment of history) {
+      if (appointment.status !== 'completed' || appointment.recallId) continue;
+      try {
+        if (await this.handleAppointmentCompleted(appointment)) opened++;
+      } catch (error) {
+        console.error(`Could not open the next recall for appointment ${appointment.id}:`, error);
+      }
+    }
+    return opened;
+  }
+
+  static toPatientRecall(record: RecallRecord): PatientRecall {
+    return {
+      id: record.id!,
+      patientId: record.patientId,
+      patientName: record.patientName,
+      lastVisit: ClinicTime.clinicTimeToDate(record.lastVisitDate, '00:00'),
+      procedure: record.recallType,
+      nextDue: ClinicTime.clinicTimeToDate(record.nextDueDate, '00:00'),
+      status: record.status,
+      contactAttempts: record.contactAttempts || 0,
+      lastContactDate: record.lastContactDate,
+      remindersSent: record.remindersSent || 0,
+      preferredContact: record.preferredContactMethod,
+      estimatedRevenue: record.estimatedRevenue || 0,
+      appointmentId: record.appointmentId || undefined,
+      phone: record.phone,
+      email: record.email,
+      letterStatus: record.letterStatus,
+      notes: record.notes
     };
+  }
+
+  // Write changes to the Recalls table and refresh the in-memory recall from the saved row
+  private static async saveRecall(recall: PatientRecall, updates: Partial<RecallRecord>): Promise<boolean> {
+    try {
+      const record = await airtableService.updateRecall(recall.id, updates);
+      Object.assign(recall, this.toPatientRecall({ ...record, id: recall.id }));
+      return true;
+    } catch (error) {
+      console.error(`Failed to save recall ${recall.id} for ${recall.patientName}:`, error);
+      return false;
+    }
+  }
 
-    this.patientRecalls.push(newRecall);
-    console.log(`➕ Added recall for ${patientData.patientName}: ${patientData.procedure} due ${nextDue.toDateString()}`);
+  // A recall that is still open is overdue once its due date has passed
+  private static openStatus(recall: PatientRecall, today: string): PatientRecall['status'] {
+    if (recall.status === 'contacted') return 'contacted';
+    return this.toDateString(recall.nextDue) < today ? 'overdue' : 'due';
   }
-}
\ No newline at end of file
+
+  private static appendNote(existing: string | undefined, note: string): string {
+    return existing ? `${existing}\n${note}` : note;
+  }
+
+  private static toDateString(date: Date): string {
+    return ClinicTime.getClinicDateParts(date).date;
+  }
+}
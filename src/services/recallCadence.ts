@@ -0,0 +1,170 @@
+// Recall Cadence Planner for Elite Dental AI Widget
+// Lays out each recall's reminders (RecallConfig.reminderDays) and overdue escalations (recallSettings.escalationRules) by date,
+// and records the certified-mail letters the front desk still has to print on their Recalls rows
+
+import { businessConfig, recallSettings } from '../config/dental';
+import { airtableService, PatientRecord } from './airtableService';
+import { PatientRecall, RecallConfig } from './recallAutomator';
+import { TemplateEngine } from './templateEngine';
+import { ClinicTime } from '../utils/clinicTime';
+
+type EscalationChannel = typeof recallSettings.escalationRules[keyof typeof recallSettings.escalationRules];
+
+export type RecallCadenceChannel = PatientRecall['preferredContact'] | EscalationChannel;
+
+export interface RecallCadenceStep {
+  key: string; // e.g. remind-14d, overdue-60d
+  date: string; // clinic date the step comes due
+  channel: RecallCadenceChannel;
+  escalation: boolean;
+}
+
+export interface RecallLetter {
+  recallId: string;
+  patientName: string;
+  mailingAddress?: string; // missing until the front desk adds one to the patient record
+  procedure: string;
+  body: string;
+  status: 'to_print' | 'mailed';
+  createdAt: string;
+  mailedAt?: string;
+}
+
+export class RecallCadence {
+  private static listeners: Set<() => void> = new Set();
+
+  // Reminders before the due date on the patient's preferred channel, then escalations once overdue, in date order
+  static getPlan(recall: PatientRecall, config: RecallConfig): RecallCadenceStep[] {
+    const dueDate = ClinicTime.getClinicDateParts(recall.nextDue).date;
+
+    const reminders = [...config.reminderDays]
+      .sort((a, b) => b - a)
+      .map(days => ({
+        key: `remind-${days}d`,
+        date: ClinicTime.addDays(dueDate, -days),
+        channel: recall.preferredContact as RecallCadenceChannel,
+        escalation: false
+      }));
+
+    const escalations = (Object.entries(recallSettings.escalationRules) as Array<[string, EscalationChannel]>)
+      .map(([rule, channel]) => ({ days: parseInt(rule.replace(/\D/g, ''), 10), channel }))
+      .sort((a, b) => a.days - b.days)
+      .map(({ days, channel }) => ({
+        key: `overdue-${days}d`,
+        date: ClinicTime.addDays(dueDate, days),
+        channel,
+        escalation: true
+      }));
+
+    return [...reminders, ...escalations];
+  }
+
+  // Latest step whose date has arrived and not yet handled; steps overtaken since the last run are skipped, not sent late
+  static findDueStep(plan: RecallCadenceStep[], today: string, handled: number = 0): number {
+    const dueIndex = plan.reduce((latest, step, index) => step.date <= today ? index : latest, -1);
+    return dueIndex < handled ? -1 : dueIndex;
+  }
+
+  // One letter per recall, kept on its Recalls row so every front desk browser sees it; a recall that already
+  // has a letter, waiting or mailed, is left alone
+  static async queueLetter(recall: PatientRecall, patient?: PatientRecord | null): Promise<void> {
+    if (recall.letterStatus) return;
+
+    const language = patient?.preferredLanguage || recall.preferredLanguage;
+    const dueDate = recall.nextDue.toLocaleDateString(TemplateEngine.getLocale(language), {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: businessConfig.timeZone
+    });
+
+    await airtableService.updateRecall(recall.id, {
+      letterStatus: 'to_print',
+      letterBody: TemplateEngine.renderText(
+        'recall_letter',
+        { name: recall.patientName, procedure: recall.procedure, date: dueDate },
+        { language, enforceSmsLimit: false }
+      ),
+      letterAddress: patient?.mailingAddress,
+      letterQueuedAt: new Date().toISOString()
+    });
+    recall.letterStatus = 'to_print';
+
+    this.notify();
+    console.log(`✉️ Certified recall letter queued for ${recall.patientName}${patient?.mailingAddress ? '' : ' - no mailing address on file'}`);
+  }
+
+  static async markMailed(recallId: string): Promise<void> {
+    await airtableService.updateRecall(recallId, { letterStatus: 'mailed', letterMailedAt: new Date().toISOString() });
+    this.notify();
+  }
+
+  // Letters still waiting to be printed and mailed, soonest-due recall first
+  static async getLettersToPrint(): Promise<RecallLetter[]> {
+    const records = await airtableService.getRecalls({ letterStatus: 'to_print' });
+    return records.map(record => ({
+      recallId: record.id!,
+      patientName: record.patientName,
+      mailingAddress: record.letterAddress,
+      procedure: record.recallType,
+      body: record.letterBody || '',
+      status: 'to_print',
+      createdAt: record.letterQueuedAt || new Date().toISOString()
+    }));
+  }
+
+  // Standalone page for the browser's print dialog
+  static toPrintableHtml(letter: RecallLetter): string {
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    const paragraphs = letter.body
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${escape(paragraph).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+    const today = new Date(letter.createdAt).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: businessConfig.timeZone
+    });
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Recall letter - ${escape(letter.patientName)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 6.5in; margin: 1in auto; line-height: 1.5; }
+  .clinic { margin-bottom: 2em; }
+  .address { margin: 2em 0; white-space: pre-line; }
+  .notice { font-weight: bold; letter-spacing: 0.1em; }
+</style>
+</head>
+<body>
+<div class="clinic"><strong>${escape(businessConfig.clinicName)}</strong><br>${escape(businessConfig.phone)}</div>
+<div class="notice">CERTIFIED MAIL</div>
+<div>${today}</div>
+<div class="address">${escape(letter.patientName)}
+${escape(letter.mailingAddress || '[Mailing address missing - add it before mailing]')}</div>
+${paragraphs}
+</body>
+</html>`;
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Recall letter listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,210 @@
+// Appointment Reminder Scheduler for Elite Dental AI Widget
+// Sends the reminders configured in NoShowDefenderConfig once each, tracking progress in AppointmentRecord.remindersSent;
+// appointments scored high no-show risk also get noShowRiskConfig.extraTouchpoints, tracked in extraRemindersSent
+
+import { airtableService, AppointmentRecord } from './airtableService';
+import { NoShowDefender } from './noShowDefender';
+import { NoShowPredictor } from './noShowRisk';
+import { OutboundQueue } from './outboundQueue';
+import { TemplateEngine } from './templateEngine';
+import { VoiceReminders } from './voiceReminders';
+import { ClinicTime } from '../utils/clinicTime';
+import { noShowRiskConfig, MessageTemplate } from '../config/dental';
+
+export interface ReminderStage {
+  key: string; // e.g. sms-24h
+  channel: 'sms' | 'voice';
+  leadHours: number;
+  skipIfConfirmed: boolean; // confirmation requests are pointless once the patient has confirmed
+}
+
+export interface ReminderScanSummary {
+  scanned: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+}
+
+type StageProgressField = 'remindersSent' | 'extraRemindersSent';
+
+const ACTIVE_STATUSES: AppointmentRecord['status'][] = ['scheduled', 'confirmed'];
+
+export class ReminderScheduler {
+  private static scanIntervalMs = 5 * 60 * 1000;
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static scanning: Promise<ReminderScanSummary> | null = null;
+
+  // Enabled stages, earliest first; an appointment's remindersSent is the number of stages already handled
+  static getStages(): ReminderStage[] {
+    const config = NoShowDefender.getReminderConfig();
+    const stages: ReminderStage[] = [];
+
+    (Object.entries(config.sms) as Array<[string, boolean]>).forEach(([lead, enabled]) => {
+      if (enabled) {
+        const leadHours = parseInt(lead, 10);
+        stages.push({ key: `sms-${lead}`, channel: 'sms', leadHours, skipIfConfirmed: leadHours >= 24 });
+      }
+    });
+    (Object.entries(config.voice) as Array<[string, boolean]>).forEach(([lead, enabled]) => {
+      if (enabled) {
+        stages.push({ key: `voice-${lead}`, channel: 'voice', leadHours: parseInt(lead, 10), skipIfConfirmed: true });
+      }
+    });
+
+    return stages.sort((a, b) => b.leadHours - a.leadHours);
+  }
+
+  // Extra touchpoints for high-risk appointments, earliest first; extraRemindersSent counts those handled
+  static getRiskStages(): ReminderStage[] {
+    return noShowRiskConfig.extraTouchpoints
+      .map(touchpoint => ({
+        key: touchpoint.key,
+        channel: touchpoint.channel,
+        leadHours: touchpoint.leadHours,
+        skipIfConfirmed: true
+      }))
+      .sort((a, b) => b.leadHours - a.leadHours);
+  }
+
+  // Scan upcoming appointments; a scan requested mid-scan waits for the current one instead of overlapping
+  static async runScan(now: Date = new Date()): Promise<ReminderScanSummary> {
+    if (this.scanning) {
+      return this.scanning;
+    }
+
+    this.scanning = this.scan(now);
+    try {
+      return await this.scanning;
+    } finally {
+      this.scanning = null;
+    }
+  }
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runScan().catch(error => console.error('Reminder scan failed:', error));
+    }, this.scanIntervalMs);
+    this.runScan().catch(error => console.error('Reminder scan failed:', error));
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async scan(now: Date): Promise<ReminderScanSummary> {
+    const summary: ReminderScanSummary = { scanned: 0, sent: 0, skipped: 0, failed: 0 };
+    const stages = this.getStages();
+    const riskStages = this.getRiskStages();
+    if (stages.length === 0 && riskStages.length === 0) return summary;
+
+    const today = ClinicTime.getClinicDateParts(now).date;
+    const horizonHours = Math.max(...[...stages, ...riskStages].map(stage => stage.leadHours));
+    const lastDay = ClinicTime.getClinicDateParts(new Date(now.getTime() + horizonHours * 60 * 60 * 1000)).date;
+    const appointments = await airtableService.getAppointmentsInRange(today, lastDay);
+
+    for (const appointment of appointments) {
+      if (!ACTIVE_STATUSES.includes(appointment.status)) continue;
+
+      const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+      if (start.getTime() <= now.getTime()) continue;
+      summary.scanned++;
+
+      const hoursUntil = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+      await this.runDueStage(appointment, stages, 'remindersSent', hoursUntil, start, summary);
+
+      if (this.findDueStage(riskStages, hoursUntil, appointment.extraRemindersSent) < 0) continue;
+      try {
+        const risk = await NoShowPredictor.assess(appointment);
+        if (risk.level !== 'high') continue;
+        console.log(`📉 ${appointment.patientName} is high no-show risk (${Math.round(risk.score * 100)}%): ${risk.factors.join('; ')}`);
+      } catch (error) {
+        console.error(`No-show risk for appointment ${appointment.id} could not be scored:`, error);
+        continue;
+      }
+      await this.runDueStage(appointment, riskStages, 'extraRemindersSent', hoursUntil, start, summary);
+    }
+
+    if (summary.sent + summary.skipped + summary.failed > 0) {
+      console.log('⏰ Reminder scan complete:', summary);
+    }
+    return summary;
+  }
+
+  // Latest stage whose window has opened and not yet handled; stages overtaken since the last scan are skipped, not sent late
+  private static findDueStage(stages: ReminderStage[], hoursUntil: number, handled: number = 0): number {
+    const dueIndex = stages.reduce((latest, stage, index) => hoursUntil <= stage.leadHours ? index : latest, -1);
+    return dueIndex < handled ? -1 : dueIndex;
+  }
+
+  private static async runDueStage(
+    appointment: AppointmentRecord,
+    stages: ReminderStage[],
+    progressField: StageProgressField,
+    hoursUntil: number,
+    start: Date,
+    summary: ReminderScanSummary
+  ): Promise<void> {
+    const dueIndex = this.findDueStage(stages, hoursUntil, appointment[progressField]);
+    if (dueIndex < 0) return;
+
+    const stage = stages[dueIndex];
+    try {
+      // Record progress first so a crash mid-send can never produce a second reminder
+      await airtableService.updateAppointment(appointment.id!, { [progressField]: dueIndex + 1 });
+
+      if (stage.skipIfConfirmed && appointment.status === 'confirmed') {
+        summary.skipped++;
+        return;
+      }
+      if (stage.channel === 'voice') {
+        const call = await this.callReminder(appointment, stage);
+        summary[call ? 'sent' : 'skipped']++;
+        return;
+      }
+
+      await this.sendReminder(appointment, stage, start);
+      summary.sent++;
+    } catch (error) {
+      console.error(`Reminder ${stage.key} for appointment ${appointment.id} failed:`, error);
+      summary.failed++;
+    }
+  }
+
+  // Returns false when outbound calling is not configured; the earlier SMS reminders still went out
+  private static async callReminder(appointment: AppointmentRecord, stage: ReminderStage): Promise<boolean> {
+    if (!VoiceReminders.isAvailable()) {
+      console.log(`⏰ ${stage.key} reminder for ${appointment.patientName} skipped - outbound calling is not set up`);
+      return false;
+    }
+
+    const patient = await airtableService.getPatient(appointment.patientId);
+    const result = await VoiceReminders.callForAppointment(appointment, patient?.preferredLanguage);
+    if (result.status !== 'started') {
+      throw new Error(result.error || 'Reminder call could not be placed');
+    }
+    return true;
+  }
+
+  private static async sendReminder(appointment: AppointmentRecord, stage: ReminderStage, start: Date): Promise<void> {
+    const patient = await airtableService.getPatient(appointment.patientId);
+    const language = patient?.preferredLanguage;
+
+    const template: MessageTemplate = stage.leadHours >= 24 ? 'appointment_reminder' : 'appointment_reminder_soon';
+    const message = TemplateEngine.renderText(template, {
+      date: start,
+      time: start,
+      provider: appointment.provider
+    }, { language });
+
+    const result = await OutboundQueue.send(appointment.phone, message, 'reminder', { appointmentId: appointment.id, stage: stage.key });
+    if (result.status === 'dead_lettered') {
+      throw new Error(result.error || 'Reminder SMS could not be delivered');
+    }
+    console.log(`⏰ ${stage.key} reminder for ${appointment.patientName}: ${result.status}`);
+  }
+}
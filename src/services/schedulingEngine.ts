@@ -0,0 +1,302 @@
+// Scheduling Engine for Elite Dental AI Widget
+// Computes genuinely free appointment slots from clinic hours, buffer rules and existing bookings
+
+import { appointmentConfig, businessConfig, procedureConfig, ProcedureType } from '../config/dental';
+import { airtableService, AppointmentRecord } from './airtableService';
+import { ProviderRoster, ProviderProfile } from './providerRoster';
+import { ClinicTime } from '../utils/clinicTime';
+
+export interface AppointmentSlot {
+  date: string; // YYYY-MM-DD in clinic time zone
+  time: string; // HH:mm in clinic time zone
+  start: Date;
+  duration: number; // minutes
+  provider: string;
+  providerId: string;
+  chair: string;
+}
+
+export interface SlotSearchOptions {
+  procedure: string;
+  duration?: number; // overrides the procedure's configured duration
+  providerId?: string; // restrict the search to one provider's calendar
+  earliest?: Date;
+  searchDays?: number;
+  limit?: number;
+}
+
+export type SlotBookingDetails = Omit<
+  AppointmentRecord,
+  'id' | 'createdAt' | 'updatedAt' | 'appointmentDate' | 'appointmentTime' | 'duration' | 'provider' | 'providerId' | 'chair'
+>;
+
+// Thrown by bookSlot and moveToSlot when the re-check finds the slot already taken
+export class SlotUnavailableError extends Error {
+  constructor(slot: AppointmentSlot) {
+    super(`Slot ${slot.date} ${slot.time} with ${slot.provider} is no longer available`);
+    this.name = 'SlotUnavailableError';
+  }
+}
+
+interface BookedInterval {
+  start: number; // minutes since clinic-local midnight
+  end: number;
+  isSurgery: boolean;
+}
+
+export class SchedulingEngine {
+  private static defaultSearchDays = 14;
+  private static defaultLimit = 5;
+  private static inactiveStatuses: AppointmentRecord['status'][] = ['cancelled', 'no-show'];
+  private static pending: Promise<unknown> = Promise.resolve();
+
+  // Resolve free text like "Emergency Consultation" or "implant" to a configured procedure
+  static resolveProcedure(procedure: string): ProcedureType | null {
+    const normalized = (procedure || '').toLowerCase().trim();
+    if (!normalized) return null;
+
+    if (normalized in procedureConfig) {
+      return normalized as ProcedureType;
+    }
+
+    const procedures = Object.keys(procedureConfig) as ProcedureType[];
+    return procedures.find(key =>
+      normalized.includes(key) ||
+      procedureConfig[key].keywords.some(keyword => normalized.includes(keyword))
+    ) || null;
+  }
+
+  static getProcedureDuration(procedure: string): number {
+    const resolved = this.resolveProcedure(procedure);
+    return resolved ? procedureConfig[resolved].duration : 60;
+  }
+
+  // Fetch existing bookings from Airtable and compute open slots
+  static async findOpenSlots(options: SlotSearchOptions): Promise<AppointmentSlot[]> {
+    const earliest = options.earliest || new Date();
+    const searchDays = options.searchDays || this.defaultSearchDays;
+    const startDate = ClinicTime.getClinicDateParts(earliest).date;
+    const endDate = ClinicTime.addDays(startDate, searchDays - 1);
+
+    const existing = await airtableService.getAppointmentsInRange(startDate, endDate);
+    return this.computeOpenSlots(options, existing);
+  }
+
+  static async findFirstOpenSlot(options: SlotSearchOptions): Promise<AppointmentSlot | null> {
+    const slots = await this.findOpenSlots({ ...options, limit: 1 });
+    return slots[0] || null;
+  }
+
+  // Re-check the slot against the latest bookings and create the appointment only if it is still free
+  static bookSlot(slot: AppointmentSlot, details: SlotBookingDetails): Promise<AppointmentRecord> {
+    return this.exclusive(async () => {
+      await this.assertSlotOpen(slot, details.procedure);
+
+      return airtableService.createAppointment({
+        ...details,
+        appointmentDate: slot.date,
+        appointmentTime: slot.time,
+        duration: slot.duration,
+        provider: slot.provider,
+        providerId: slot.providerId,
+        chair: slot.chair
+      });
+    });
+  }
+
+  // Same re-check for an existing appointment moving to a new slot; its own current booking does not count against it
+  static moveToSlot(
+    appointment: AppointmentRecord,
+    slot: AppointmentSlot,
+    updates: Partial<AppointmentRecord> = {}
+  ): Promise<AppointmentRecord> {
+    return this.exclusive(async () => {
+      await this.assertSlotOpen(slot, appointment.procedure, appointment.id);
+
+      return airtableService.updateAppointment(appointment.id!, {
+        ...updates,
+        appointmentDate: slot.date,
+        appointmentTime: slot.time,
+        duration: slot.duration,
+        provider: slot.provider,
+        providerId: slot.providerId,
+        chair: slot.chair
+      });
+    });
+  }
+
+  // Pure slot computation over a known set of bookings
+  static computeOpenSlots(options: SlotSearchOptions, existing: AppointmentRecord[]): AppointmentSlot[] {
+    const earliest = options.earliest || new Date();
+    const searchDays = options.searchDays || this.defaultSearchDays;
+    const limit = options.limit || this.defaultLimit;
+    const duration = options.duration || this.getProcedureDuration(options.procedure);
+    const procedure = this.resolveProcedure(options.procedure);
+    const isSurgery = procedure === 'surgery';
+    const step = businessConfig.appointmentSlots;
+
+    const providers = ProviderRoster.getEligibleProviders(procedure || '')
+      .filter(provider => !options.providerId || provider.id === options.providerId);
+
+    if (providers.length === 0) {
+      console.warn(`No provider on the roster can perform procedure: ${options.procedure}`);
+      return [];
+    }
+
+    const now = ClinicTime.getClinicDateParts(earliest);
+    const slots: AppointmentSlot[] = [];
+
+    for (let offset = 0; offset < searchDays && slots.length < limit; offset++) {
+      const date = ClinicTime.addDays(now.date, offset);
+      const hours = businessConfig.hours[ClinicTime.getWeekday(date)];
+      if (!hours.open || !hours.close) continue;
+
+      const open = ClinicTime.toMinutes(hours.open);
+      const close = ClinicTime.toMinutes(hours.close);
+      const dayBookings = this.getActiveBookings(existing, date);
+
+      // On the first day, never offer a slot that has already started
+      let start = open;
+      if (date === now.date) {
+        start = Math.max(open, Math.ceil(now.minutes / step) * step);
+      }
+
+      for (; start + duration <= close && slots.length < limit; start += step) {
+        if (this.overlapsLunch(start, duration)) continue;
+
+        const assignment = this.assignProvider(providers, date, start, duration, isSurgery, dayBookings);
+        if (assignment) {
+          const time = ClinicTime.fromMinutes(start);
+          slots.push({
+            date,
+            time,
+            start: ClinicTime.clinicTimeToDate(date, time),
+            duration,
+            provider: assignment.provider.name,
+            providerId: assignment.provider.id,
+            chair: assignment.chair
+          });
+        }
+      }
+    }
+
+    return slots;
+  }
+
+  // Check a specific slot against a known set of bookings before committing to it
+  static isSlotOpen(slot: AppointmentSlot, procedure: string, existing: AppointmentRecord[]): boolean {
+    const hours = businessConfig.hours[ClinicTime.getWeekday(slot.date)];
+    if (!hours.open || !hours.close) return false;
+
+    const start = ClinicTime.toMinutes(slot.time);
+    if (start < ClinicTime.toMinutes(hours.open) || start + slot.duration > ClinicTime.toMinutes(hours.close)) {
+      return false;
+    }
+    if (this.overlapsLunch(start, slot.duration)) return false;
+
+    const provider = ProviderRoster.getProvider(slot.providerId);
+    const resolved = this.resolveProcedure(procedure);
+    if (!provider || !resolved || !ProviderRoster.canPerform(provider, resolved) || !provider.chairs.includes(slot.chair)) {
+      return false;
+    }
+
+    const assignment = this.assignProvider(
+      [provider],
+      slot.date,
+      start,
+      slot.duration,
+      resolved === 'surgery',
+      this.getActiveBookings(existing, slot.date),
+      slot.chair
+    );
+    return assignment !== null;
+  }
+
+  // Pick the least-booked qualified provider who is on shift, free, and has a free chair
+  private static assignProvider(
+    providers: readonly ProviderProfile[],
+    date: string,
+    start: number,
+    duration: number,
+    isSurgery: boolean,
+    dayBookings: AppointmentRecord[],
+    requiredChair?: string
+  ): { provider: ProviderProfile; chair: string } | null {
+    const load = (provider: ProviderProfile) =>
+      dayBookings.filter(appointment => ProviderRoster.isAssignedTo(provider, appointment)).length;
+    const ordered = [...providers].sort((a, b) => load(a) - load(b));
+
+    for (const provider of ordered) {
+      if (!ProviderRoster.isWorking(provider, date, start, start + duration)) continue;
+
+      const providerBookings = dayBookings.filter(appointment => ProviderRoster.isAssignedTo(provider, appointment));
+      if (!this.isFree(start, duration, isSurgery, this.toIntervals(providerBookings))) continue;
+
+      const chairs = requiredChair ? [requiredChair] : provider.chairs;
+      const chair = chairs.find(candidate =>
+        this.isFree(start, duration, isSurgery, this.toIntervals(dayBookings.filter(appointment => appointment.chair === candidate)))
+      );
+
+      if (chair) {
+        return { provider, chair };
+      }
+    }
+
+    return null;
+  }
+
+  private static async assertSlotOpen(slot: AppointmentSlot, procedure: string, ignoreAppointmentId?: string): Promise<void> {
+    const existing = (await airtableService.getAppointmentsInRange(slot.date, slot.date))
+      .filter(appointment => !ignoreAppointmentId || appointment.id !== ignoreAppointmentId);
+
+    if (!this.isSlotOpen(slot, procedure, existing)) {
+      throw new SlotUnavailableError(slot);
+    }
+  }
+
+  // Check-then-write booking steps run one at a time so two bookings from this app cannot take the same chair
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private static getActiveBookings(existing: AppointmentRecord[], date: string): AppointmentRecord[] {
+    return existing.filter(appointment =>
+      appointment.appointmentDate === date &&
+      !this.inactiveStatuses.includes(appointment.status) &&
+      !!appointment.appointmentTime
+    );
+  }
+
+  private static toIntervals(bookings: AppointmentRecord[]): BookedInterval[] {
+    return bookings.map(appointment => {
+      const start = ClinicTime.toMinutes(appointment.appointmentTime);
+      return {
+        start,
+        end: start + (appointment.duration || this.getProcedureDuration(appointment.procedure)),
+        isSurgery: this.resolveProcedure(appointment.procedure) === 'surgery'
+      };
+    });
+  }
+
+  // Lunch break is a clinic-wide hard block with no extra buffer
+  private static overlapsLunch(start: number, duration: number): boolean {
+    const lunchStart = ClinicTime.toMinutes(businessConfig.lunchStart);
+    return start < lunchStart + appointmentConfig.bufferRules.lunchBreak && start + duration > lunchStart;
+  }
+
+  private static isFree(start: number, duration: number, isSurgery: boolean, booked: BookedInterval[]): boolean {
+    const end = start + duration;
+    const { beforeSurgery, afterSurgery, betweenPatients } = appointmentConfig.bufferRules;
+    const baseGap = Math.max(businessConfig.bufferTime, betweenPatients);
+
+    return booked.every(interval => {
+      // Gap needed when the existing booking comes first, then when the candidate comes first
+      const gapAfterExisting = Math.max(baseGap, interval.isSurgery ? afterSurgery : 0, isSurgery ? beforeSurgery : 0);
+      const gapBeforeExisting = Math.max(baseGap, isSurgery ? afterSurgery : 0, interval.isSurgery ? beforeSurgery : 0);
+
+      return interval.end + gapAfterExisting <= start || end + gapBeforeExisting <= interval.start;
+    });
+  }
+}
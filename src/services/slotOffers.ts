@@ -0,0 +1,383 @@
+// Slot Offer Cascade for Elite Dental AI Widget
+// Offers a freed slot to one waitlist patient at a time with a hold timer; books only when the patient accepts
+
+import { procedureConfig } from '../config/dental';
+import { airtableService, AppointmentRecord, PatientRecord, WaitlistRecord } from './airtableService';
+import { NoShowDefender, FreedSlot } from './noShowDefender';
+import { SchedulingEngine, AppointmentSlot } from './schedulingEngine';
+import { OutboundQueue } from './outboundQueue';
+import { TemplateEngine } from './templateEngine';
+
+export type SlotOfferEvent = 'offered' | 'declined' | 'expired' | 'skipped' | 'booked' | 'unfilled';
+
+export interface SlotOfferStep {
+  at: string;
+  event: SlotOfferEvent;
+  waitlistId?: string;
+  patientName?: string;
+  detail?: string;
+}
+
+export interface SlotOfferCandidate {
+  waitlistId: string;
+  patientName: string;
+  phone: string;
+  procedure: string;
+}
+
+export interface SlotOffer {
+  id: string;
+  slot: Omit<FreedSlot, 'start'> & { start: string }; // ISO start so the offer survives a reload
+  candidates: SlotOfferCandidate[]; // in offer order
+  nextCandidate: number;
+  current?: SlotOfferCandidate & { offeredAt: string; expiresAt: string };
+  status: 'offering' | 'booked' | 'unfilled';
+  appointmentId?: string;
+  revenueRecovered?: number;
+  steps: SlotOfferStep[];
+  createdAt: string;
+}
+
+export interface SlotOfferAcceptance {
+  offer: SlotOffer;
+  appointment?: AppointmentRecord; // missing when the slot was lost before the patient replied
+}
+
+const OFFERS_KEY = 'dental_slot_offers';
+const MAX_STORED_OFFERS = 50;
+
+export class SlotOfferCascade {
+  private static sweepIntervalMs = 60 * 1000;
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static pending: Promise<unknown> = Promise.resolve();
+  private static listeners: Set<() => void> = new Set();
+  private static memoryStore: Map<string, string> = new Map(); // used where localStorage is unavailable
+
+  // Start a cascade over matching waitlist entries (best candidate first) and offer to the first one still waiting
+  static begin(slot: FreedSlot, candidates: WaitlistRecord[]): Promise<SlotOffer> {
+    return this.exclusive(async () => {
+      const offer: SlotOffer = {
+        id: `offer_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        slot: { ...slot, start: slot.start.toISOString() },
+        candidates: candidates.map(entry => ({
+          waitlistId: entry.id!,
+          patientName: entry.patientName,
+          phone: entry.phone,
+          procedure: entry.procedure
+        })),
+        nextCandidate: 0,
+        status: 'offering',
+        steps: [],
+        createdAt: new Date().toISOString()
+      };
+
+      await this.advance(offer, new Date());
+      return offer;
+    });
+  }
+
+  // Patient replied CONFIRM; null when they hold no live offer
+  static accept(entry: WaitlistRecord, now: Date = new Date()): Promise<SlotOfferAcceptance | null> {
+    return this.exclusive(async () => {
+      const offer = this.findHeldOffer(entry.id!);
+      if (!offer) return null;
+
+      const current = offer.current!;
+      if (new Date(current.expiresAt).getTime() <= now.getTime()) {
+        await this.expireHold(offer, now);
+        return null;
+      }
+
+      const procedure = SchedulingEngine.resolveProcedure(current.procedure);
+      const slot = this.toAppointmentSlot(offer, procedure ? procedureConfig[procedure].duration : undefined);
+      let appointment: AppointmentRecord;
+      try {
+        const patient = await this.resolvePatient(current);
+        appointment = await SchedulingEngine.bookSlot(slot, {
+          patientId: patient.id!,
+          patientName: current.patientName,
+          phone: current.phone,
+          procedure: procedure || current.procedure,
+          status: 'confirmed',
+          priority: 'routine',
+          notes: `Booked from waitlist into slot freed by ${offer.slot.appointmentId || 'a cancellation'}`,
+          estimatedCost: procedure ? procedureConfig[procedure].cost : undefined,
+          remindersSent: 0,
+          createdBy: 'patient'
+        });
+      } catch (error) {
+        // This patient's visit could not be booked (longer than the slot, a write failure, the time was taken) -
+        // release them and offer the slot to the next candidate while it is still open
+        const detail = error instanceof Error ? error.message : 'Slot could not be booked';
+        await airtableService.updateWaitlistEntry(current.waitlistId, { status: 'active' });
+        this.record(offer, 'skipped', current, `Accepted but could not be booked - ${detail}`);
+        offer.current = undefined;
+
+        if (await this.isSlotStillOpen(offer)) {
+          await this.advance(offer, now);
+        } else {
+          this.close(offer, 'Slot was booked elsewhere during the hold');
+        }
+        return { offer };
+      }
+
+      await airtableService.updateWaitlistEntry(current.waitlistId, {
+        status: 'scheduled',
+        lastContactDate: now.toISOString()
+      });
+
+      offer.status = 'booked';
+      offer.appointmentId = appointment.id;
+      offer.revenueRecovered = appointment.estimatedCost || 0;
+      offer.current = undefined;
+      this.record(offer, 'booked', current, `Appointment ${appointment.id} - $${offer.revenueRecovered} recovered`);
+      this.save(offer);
+      return { offer, appointment };
+    });
+  }
+
+  // Patient passed on the offer; they stay on the waitlist unless they asked to leave it
+  static decline(entry: WaitlistRecord, leaveWaitlist = false, now: Date = new Date()): Promise<SlotOffer | null> {
+    return this.exclusive(async () => {
+      const offer = this.findHeldOffer(entry.id!);
+      if (!offer) return null;
+
+      const current = offer.current!;
+      await airtableService.updateWaitlistEntry(current.waitlistId, { status: leaveWaitlist ? 'expired' : 'active' });
+      this.record(offer, 'declined', current, leaveWaitlist ? 'Declined and left the waitlist' : undefined);
+      offer.current = undefined;
+
+      await this.advance(offer, now);
+      return offer;
+    });
+  }
+
+  // Move on from every hold whose timer has run out
+  static sweep(now: Date = new Date()): Promise<number> {
+    return this.exclusive(async () => {
+      const due = this.getOffers().filter(offer =>
+        offer.status === 'offering' && offer.current && new Date(offer.current.expiresAt).getTime() <= now.getTime()
+      );
+
+      for (const offer of due) {
+        try {
+          await this.expireHold(offer, now);
+        } catch (error) {
+          console.error(`Slot offer ${offer.id} could not move on:`, error);
+        }
+      }
+      return due.length;
+    });
+  }
+
+  static hasHeldOffer(waitlistId: string): boolean {
+    return !!this.findHeldOffer(waitlistId);
+  }
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('Slot offer sweep failed:', error));
+    }, this.sweepIntervalMs);
+    this.sweep().catch(error => console.error('Slot offer sweep failed:', error));
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Most recently updated first
+  static getOffers(): SlotOffer[] {
+    return this.read<SlotOffer[]>(OFFERS_KEY, []);
+  }
+
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private static async expireHold(offer: SlotOffer, now: Date): Promise<void> {
+    const current = offer.current!;
+    await airtableService.updateWaitlistEntry(current.waitlistId, { status: 'active' });
+    this.record(offer, 'expired', current, 'No reply within the hold');
+    offer.current = undefined;
+
+    await this.send(current, 'waitlist_offer_expired', { name: current.patientName });
+    await this.advance(offer, now);
+  }
+
+  // Offer to the next candidate who is still waiting, or close the cascade with the reason it went unfilled
+  private static async advance(offer: SlotOffer, now: Date): Promise<void> {
+    const { holdMinutes, cutoffMinutes } = NoShowDefender.getWaitlistConfig();
+    const start = new Date(offer.slot.start);
+    const cutoff = start.getTime() - cutoffMinutes * 60 * 1000;
+
+    while (offer.nextCandidate < offer.candidates.length) {
+      if (now.getTime() >= cutoff) {
+        this.close(offer, `Less than ${cutoffMinutes} minutes before the appointment - too late to offer`);
+        return;
+      }
+
+      const candidate = offer.candidates[offer.nextCandidate++];
+      const entry = (await airtableService.findWaitlistByPhone(candidate.phone)).find(e => e.id === candidate.waitlistId);
+      if (!entry || entry.status !== 'active') {
+        this.record(offer, 'skipped', candidate, entry ? 'Holding another offer' : 'No longer on the waitlist');
+        continue;
+      }
+
+      const expiresAt = new Date(Math.min(now.getTime() + holdMinutes * 60 * 1000, cutoff));
+      const minutes = Math.max(1, Math.round((expiresAt.getTime() - now.getTime()) / 60000));
+      const sent = await this.send(candidate, 'waitlist_offer', {
+        name: candidate.patientName,
+        procedure: candidate.procedure,
+        date: start,
+        time: start,
+        minutes
+      });
+      if (!sent) {
+        this.record(offer, 'skipped', candidate, 'Offer SMS could not be delivered');
+        continue;
+      }
+
+      await airtableService.updateWaitlistEntry(candidate.waitlistId, {
+        status: 'contacted',
+        contactAttempts: (entry.contactAttempts || 0) + 1,
+        lastContactDate: now.toISOString()
+      });
+
+      offer.current = { ...candidate, offeredAt: now.toISOString(), expiresAt: expiresAt.toISOString() };
+      this.record(offer, 'offered', candidate, `Held for ${minutes} minutes`);
+      this.save(offer);
+      return;
+    }
+
+    const declined = offer.steps.filter(step => step.event === 'declined').length;
+    const expired = offer.steps.filter(step => step.event === 'expired').length;
+    this.close(offer, offer.candidates.length === 0
+      ? 'No waitlist patient matches this slot'
+      : `Waitlist exhausted - ${declined} declined, ${expired} did not reply`);
+  }
+
+  private static close(offer: SlotOffer, reason: string): void {
+    offer.status = 'unfilled';
+    offer.current = undefined;
+    this.record(offer, 'unfilled', undefined, reason);
+    this.save(offer);
+  }
+
+  private static async send(
+    candidate: SlotOfferCandidate,
+    template: 'waitlist_offer' | 'waitlist_offer_expired',
+    values: Record<string, string | number | Date>
+  ): Promise<boolean> {
+    const patient = await airtableService.findPatientByPhone(candidate.phone);
+    const message = TemplateEngine.renderText(template, values, { language: patient?.preferredLanguage });
+
+    const result = await OutboundQueue.send(candidate.phone, message, template);
+    if (result.status === 'dead_lettered') {
+      console.error(`📱 SMS to ${candidate.phone} failed:`, result.error);
+      return false;
+    }
+    return true;
+  }
+
+  private static async isSlotStillOpen(offer: SlotOffer): Promise<boolean> {
+    try {
+      const existing = await airtableService.getAppointmentsInRange(offer.slot.date, offer.slot.date);
+      return SchedulingEngine.isSlotOpen(this.toAppointmentSlot(offer), offer.slot.procedure, existing);
+    } catch (error) {
+      console.error('Could not re-check the freed slot:', error);
+      return true; // the next acceptance re-checks before booking anyway
+    }
+  }
+
+  // Waitlist entries carry only a name and phone; someone with no patient record yet gets one before booking
+  private static async resolvePatient(candidate: SlotOfferCandidate): Promise<PatientRecord> {
+    const existing = await airtableService.findPatientByPhone(candidate.phone);
+    if (existing) return existing;
+
+    return airtableService.createPatient({
+      patientName: candidate.patientName,
+      phone: candidate.phone,
+      preferredContactMethod: 'sms',
+      status: 'active'
+    });
+  }
+
+  private static toAppointmentSlot(offer: SlotOffer, duration: number = offer.slot.duration): AppointmentSlot {
+    return {
+      date: offer.slot.date,
+      time: offer.slot.time,
+      start: new Date(offer.slot.start),
+      duration,
+      provider: offer.slot.provider,
+      providerId: offer.slot.providerId || '',
+      chair: offer.slot.chair || ''
+    };
+  }
+
+  private static findHeldOffer(waitlistId: string): SlotOffer | undefined {
+    return this.getOffers().find(offer => offer.status === 'offering' && offer.current?.waitlistId === waitlistId);
+  }
+
+  private static record(offer: SlotOffer, event: SlotOfferEvent, candidate?: SlotOfferCandidate, detail?: string): void {
+    offer.steps.push({
+      at: new Date().toISOString(),
+      event,
+      waitlistId: candidate?.waitlistId,
+      patientName: candidate?.patientName,
+      detail
+    });
+    console.log(
+      `🔁 Slot ${offer.slot.date} ${offer.slot.time}: ${event}${candidate ? ` ${candidate.patientName}` : ''}${detail ? ` - ${detail}` : ''}`
+    );
+  }
+
+  private static save(offer: SlotOffer): void {
+    const offers = this.getOffers().filter(existing => existing.id !== offer.id);
+    this.write(OFFERS_KEY, [offer, ...offers].slice(0, MAX_STORED_OFFERS));
+    this.notify();
+  }
+
+  // Offers are read-modify-write on shared storage, so replies and the sweep run one at a time
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+
+  private static notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Slot offer listener failed:', error);
+      }
+    });
+  }
+
+  private static read<T>(key: string, fallback: T): T {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : this.memoryStore.get(key);
+      return JSON.parse(raw || 'null') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static write(key: string, value: unknown): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, JSON.stringify(value));
+      } else {
+        this.memoryStore.set(key, JSON.stringify(value));
+      }
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    }
+  }
+}
@@ -0,0 +1,370 @@
+// SMS Gateway Adapters for Elite Dental AI Widget
+// Typed messaging interface with a Twilio-style HTTP gateway and an in-memory gateway for tests and demos
+
+import { integrationConfig } from '../config/dental';
+
+export type SmsDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'failed' | 'undelivered' | 'opted_out';
+
+export interface OutboundSms {
+  to: string; // E.164, e.g. +15551234567
+  body: string;
+  type: string; // emergency, verification, reminder ...
+  metadata?: Record<string, unknown>;
+}
+
+export interface SmsSendResult {
+  messageId: string;
+  status: SmsDeliveryStatus;
+  error?: string;
+  retryable?: boolean; // false when resending can never succeed (bad number, opted out)
+}
+
+export interface SmsStatusUpdate {
+  messageId: string;
+  status: SmsDeliveryStatus;
+  to?: string;
+  errorCode?: string;
+  timestamp: Date;
+}
+
+export interface InboundSmsMessage {
+  messageId: string;
+  from: string;
+  body: string;
+  receivedAt: Date;
+}
+
+export interface SmsGateway {
+  readonly name: string;
+  isAvailable(): boolean;
+  send(message: OutboundSms): Promise<SmsSendResult>;
+  // Current delivery status of a sent message, read back from the provider
+  fetchStatus(messageId: string): Promise<SmsStatusUpdate | null>;
+  // Patient replies to the clinic number received at or after `since`, oldest first
+  fetchInbound(since: Date): Promise<InboundSmsMessage[]>;
+  optOut(phone: string): void;
+  optIn(phone: string): void;
+  isOptedOut(phone: string): boolean;
+}
+
+// Provider error codes that mean the recipient has unsubscribed or can never receive SMS
+const TWILIO_OPT_OUT_ERRORS = ['21610'];
+const TWILIO_PERMANENT_ERRORS = ['21211', '21614', '21408', '21610'];
+
+const TWILIO_STATUS_MAP: Record<string, SmsDeliveryStatus> = {
+  accepted: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  failed: 'failed',
+  undelivered: 'undelivered'
+};
+
+// Opt-outs are remembered per browser so a STOP is honoured even before the provider reports it
+class OptOutList {
+  private phones: Set<string>;
+
+  constructor(private storageKey: string) {
+    this.phones = new Set(this.load());
+  }
+
+  add(phone: string): void {
+    this.phones.add(phone);
+    this.save();
+  }
+
+  remove(phone: string): void {
+    this.phones.delete(phone);
+    this.save();
+  }
+
+  has(phone: string): boolean {
+    return this.phones.has(phone);
+  }
+
+  private load(): string[] {
+    try {
+      return typeof localStorage !== 'undefined'
+        ? JSON.parse(localStorage.getItem(this.storageKey) || '[]')
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(this.storageKey, JSON.stringify([...this.phones]));
+      }
+    } catch (error) {
+      console.error('Failed to persist SMS opt-outs:', error);
+    }
+  }
+}
+
+// Posts Twilio-style form-encoded messages to the clinic's SMS proxy (integrationConfig.apis.sms)
+export class TwilioSmsGateway implements SmsGateway {
+  readonly name = 'twilio';
+  private optOuts = new OptOutList('dental_sms_opt_outs');
+
+  constructor(
+    private options: {
+      endpoint?: string;
+      from?: string;
+      apiToken?: string;
+      timeout?: number;
+    } = {}
+  ) {}
+
+  isAvailable(): boolean {
+    return !!this.getEndpoint() && !!this.getFrom();
+  }
+
+  async send(message: OutboundSms): Promise<SmsSendResult> {
+    if (this.isOptedOut(message.to)) {
+      return { messageId: '', status: 'opted_out', error: 'Recipient has opted out', retryable: false };
+    }
+
+    const body = new URLSearchParams({
+      To: message.to,
+      From: this.getFrom(),
+      Body: message.body
+    });
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout || integrationConfig.apis.sms.timeout);
+
+    try {
+      const response = await fetch(`${this.getEndpoint()}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          ...this.getAuthHeaders(),
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: body.toString(),
+        signal: controller.signal
+      });
+
+      const payload = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const code = String(payload.code || '');
+        if (TWILIO_OPT_OUT_ERRORS.includes(code)) {
+          this.optOut(message.to);
+          return { messageId: '', status: 'opted_out', error: payload.message, retryable: false };
+        }
+        return {
+          messageId: '',
+          status: 'failed',
+          error: `SMS gateway error: ${response.status} - ${payload.message || response.statusText}`,
+          retryable: !TWILIO_PERMANENT_ERRORS.includes(code) && response.status !== 400
+        };
+      }
+
+      return {
+        messageId: payload.sid,
+        status: TWILIO_STATUS_MAP[payload.status] || 'queued'
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown SMS gateway error';
+      return { messageId: '', status: 'failed', error: errorMessage, retryable: true };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // GET Messages/{sid}.json - Twilio's status and error_code fields
+  async fetchStatus(messageId: string): Promise<SmsStatusUpdate | null> {
+    if (!messageId || !this.isAvailable()) {
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout || integrationConfig.apis.sms.timeout);
+
+    try {
+      const response = await fetch(`${this.getEndpoint()}/Messages/${encodeURIComponent(messageId)}.json`, {
+        headers: this.getAuthHeaders(),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`SMS gateway error: ${response.status} - ${response.statusText}`);
+      }
+
+      const payload = await response.json();
+      const status = TWILIO_STATUS_MAP[payload.status];
+      if (!status) {
+        return null;
+      }
+
+      const errorCode = payload.error_code ? String(payload.error_code) : undefined;
+      const optedOut = !!errorCode && TWILIO_OPT_OUT_ERRORS.includes(errorCode);
+      if (optedOut && payload.to) {
+        this.optOut(payload.to);
+      }
+
+      return {
+        messageId,
+        status: optedOut ? 'opted_out' : status,
+        to: payload.to,
+        errorCode,
+        timestamp: new Date()
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // GET Messages.json?To={clinic number} - the listing only filters by day, so times are compared here
+  async fetchInbound(since: Date): Promise<InboundSmsMessage[]> {
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    const query = new URLSearchParams({
+      'To': this.getFrom(),
+      'DateSent>': since.toISOString().slice(0, 10),
+      'PageSize': '100'
+    });
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.options.timeout || integrationConfig.apis.sms.timeout);
+
+    try {
+      const response = await fetch(`${this.getEndpoint()}/Messages.json?${query.toString()}`, {
+        headers: this.getAuthHeaders(),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`SMS gateway error: ${response.status} - ${response.statusText}`);
+      }
+
+      const payload = await response.json();
+      const messages: Array<Record<string, string>> = Array.isArray(payload.messages) ? payload.messages : [];
+      return messages
+        .filter(message => message.direction === 'inbound' && message.sid && message.from)
+        .map(message => ({
+          messageId: message.sid,
+          from: message.from,
+          body: message.body || '',
+          receivedAt: new Date(message.date_sent || message.date_created)
+        }))
+        .filter(message => message.receivedAt.getTime() >= since.getTime())
+        .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  optOut(phone: string): void {
+    this.optOuts.add(phone);
+  }
+
+  optIn(phone: string): void {
+    this.optOuts.remove(phone);
+  }
+
+  isOptedOut(phone: string): boolean {
+    return this.optOuts.has(phone);
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.options.apiToken || import.meta.env.VITE_SMS_API_TOKEN || ''}` };
+  }
+
+  private getEndpoint(): string {
+    return this.options.endpoint || import.meta.env.VITE_SMS_ENDPOINT || '';
+  }
+
+  private getFrom(): string {
+    return this.options.from || import.meta.env.VITE_SMS_FROM_NUMBER || '';
+  }
+}
+
+// Keeps every message in memory; statuses and patient replies are driven by hand with simulateStatus and receive
+export class InMemorySmsGateway implements SmsGateway {
+  readonly name = 'in-memory';
+  readonly sent: Array<OutboundSms & { messageId: string; status: SmsDeliveryStatus; errorCode?: string }> = [];
+  readonly inbox: InboundSmsMessage[] = [];
+  private optOuts = new Set<string>();
+  private failures: Array<{ error: string; retryable: boolean }> = [];
+  private nextId = 1;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  // Make the next send fail, e.g. to exercise retry handling
+  failNext(error = 'Simulated gateway failure', retryable = true): void {
+    this.failures.push({ error, retryable });
+  }
+
+  async send(message: OutboundSms): Promise<SmsSendResult> {
+    if (this.optOuts.has(message.to)) {
+      return { messageId: '', status: 'opted_out', error: 'Recipient has opted out', retryable: false };
+    }
+
+    const failure = this.failures.shift();
+    if (failure) {
+      return { messageId: '', status: 'failed', error: failure.error, retryable: failure.retryable };
+    }
+
+    const messageId = `SM${String(this.nextId++).padStart(8, '0')}`;
+    this.sent.push({ ...message, messageId, status: 'sent' });
+    return { messageId, status: 'sent' };
+  }
+
+  // Set what the carrier reports for a sent message, e.g. undelivered with error 30003
+  simulateStatus(messageId: string, status: SmsDeliveryStatus, errorCode?: string): void {
+    const message = this.sent.find(entry => entry.messageId === messageId);
+    if (message) {
+      message.status = status;
+      message.errorCode = errorCode;
+    }
+  }
+
+  // A patient texting the clinic number
+  receive(from: string, body: string): InboundSmsMessage {
+    const message = { messageId: `MM${String(this.nextId++).padStart(8, '0')}`, from, body, receivedAt: new Date() };
+    this.inbox.push(message);
+    return message;
+  }
+
+  async fetchInbound(since: Date): Promise<InboundSmsMessage[]> {
+    return this.inbox.filter(message => message.receivedAt.getTime() >= since.getTime());
+  }
+
+  async fetchStatus(messageId: string): Promise<SmsStatusUpdate | null> {
+    const message = this.sent.find(entry => entry.messageId === messageId);
+    if (!message) {
+      return null;
+    }
+    return {
+      messageId,
+      status: message.status,
+      to: message.to,
+      errorCode: message.errorCode,
+      timestamp: new Date()
+    };
+  }
+
+  optOut(phone: string): void {
+    this.optOuts.add(phone);
+  }
+
+  optIn(phone: string): void {
+    this.optOuts.delete(phone);
+  }
+
+  isOptedOut(phone: string): boolean {
+    return this.optOuts.has(phone);
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.inbox.length = 0;
+    this.optOuts.clear();
+    this.failures = [];
+  }
+}
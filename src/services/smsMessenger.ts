@@ -0,0 +1,99 @@
+// SMS Messenger for Elite Dental AI Widget
+// Single entry point for outbound SMS - every service sends through the configured SmsGateway
+
+import { integrationConfig } from '../config/dental';
+import {
+  SmsGateway,
+  SmsSendResult,
+  SmsStatusUpdate,
+  TwilioSmsGateway
+} from './smsGateway';
+
+export class SmsMessenger {
+  private static gateway: SmsGateway | null = null;
+
+  // Swap the gateway, e.g. an InMemorySmsGateway in tests or the demo dashboard
+  static setGateway(gateway: SmsGateway | null): void {
+    this.gateway = gateway;
+  }
+
+  static getGateway(): SmsGateway {
+    if (!this.gateway) {
+      this.gateway = new TwilioSmsGateway();
+    }
+    return this.gateway;
+  }
+
+  static isAvailable(): boolean {
+    return this.getGateway().isAvailable();
+  }
+
+  static async send(to: string, body: string, type: string, metadata?: Record<string, unknown>): Promise<SmsSendResult> {
+    const recipient = this.toE164(to);
+    if (!recipient) {
+      return { messageId: '', status: 'failed', error: `Invalid recipient phone number: ${to}`, retryable: false };
+    }
+    if (!body || body.trim().length === 0) {
+      return { messageId: '', status: 'failed', error: 'Empty SMS body', retryable: false };
+    }
+
+    const gateway = this.getGateway();
+    if (gateway.isOptedOut(recipient)) {
+      console.log(`SMS to ${recipient} skipped - recipient opted out`);
+      return { messageId: '', status: 'opted_out', error: 'Recipient has opted out', retryable: false };
+    }
+    if (!gateway.isAvailable()) {
+      return { messageId: '', status: 'failed', error: `SMS gateway ${gateway.name} is not configured`, retryable: true };
+    }
+
+    const result = await gateway.send({ to: recipient, body, type, metadata });
+    console.log(`Sending ${type} SMS via ${gateway.name}:`, {
+      messageId: result.messageId,
+      status: result.status,
+      messageLength: body.length
+    });
+    return result;
+  }
+
+  // Ask the provider what became of a sent message; a gateway send only means the message was accepted
+  static async checkStatus(messageId: string): Promise<SmsStatusUpdate | null> {
+    try {
+      return await this.getGateway().fetchStatus(messageId);
+    } catch (error) {
+      console.error(`SMS status check failed for ${messageId}:`, error);
+      return null;
+    }
+  }
+
+  // Apply carrier opt-out / opt-in keywords from an inbound reply; returns true when the reply was one
+  static handleOptOutReply(phone: string, body: string): boolean {
+    const recipient = this.toE164(phone);
+    const keyword = (body || '').trim().toUpperCase();
+    if (!recipient) return false;
+
+    if ((integrationConfig.apis.sms.optOutKeywords as readonly string[]).includes(keyword)) {
+      this.getGateway().optOut(recipient);
+      return true;
+    }
+    if ((integrationConfig.apis.sms.optInKeywords as readonly string[]).includes(keyword)) {
+      this.getGateway().optIn(recipient);
+      return true;
+    }
+    return false;
+  }
+
+  static isOptedOut(phone: string): boolean {
+    const recipient = this.toE164(phone);
+    return !!recipient && this.getGateway().isOptedOut(recipient);
+  }
+
+  // US numbers in any common format to +1XXXXXXXXXX
+  static toE164(phone: string): string | null {
+    if (!phone) return null;
+    const digits = phone.replace(/\D/g, '');
+    if (digits.length === 10) return `+1${digits}`;
+    if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+    if (phone.trim().startsWith('+') && digits.length >= 11 && digits.length <= 15) return `+${digits}`;
+    return null;
+  }
+}
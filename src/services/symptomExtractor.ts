@@ -0,0 +1,236 @@
+// Symptom Extractor for Elite Dental AI Widget
+// Reads symptoms in context - negation, resolved/past symptoms, pain ratings, duration and tooth location
+
+import { painLevelKeywords, PainLevel } from '../config/dental';
+import { TextMatching } from '../utils/textMatching';
+
+export type MentionState = 'active' | 'negated' | 'resolved';
+
+export interface ToothLocation {
+  arch?: 'upper' | 'lower';
+  side?: 'left' | 'right' | 'front' | 'back';
+  tooth?: string; // molar, premolar, wisdom tooth, canine, incisor, or "#14"
+  description: string; // e.g. "lower left molar"
+}
+
+export interface ExtractedSymptoms {
+  symptoms: string[]; // currently present
+  negated: string[]; // explicitly denied ("no swelling")
+  resolved: string[]; // past or gone ("the pain is gone")
+  painRating?: number; // 0-10 when the caller gives a number
+  painDescriptor?: PainLevel;
+  duration?: string; // e.g. "since Tuesday", "for 3 days"
+  location?: ToothLocation;
+}
+
+const NEGATORS = [
+  'no', 'not', 'never', 'without', 'none', 'dont', 'doesnt', 'didnt', 'isnt', 'arent',
+  'wasnt', 'werent', 'havent', 'hasnt', 'hadnt', 'aint', 'nor', 'deny', 'denies'
+];
+
+// Words that end a negation's reach ("no fever and a broken tooth")
+const NEGATION_BARRIERS = ['and', 'then', 'now', 'still'];
+
+const NEGATION_WINDOW = 4; // words before a symptom a negator may sit
+
+const RESOLVED_PATTERN = /\b(gone|went away|go away|stopped|has stopped|healed|resolved|cleared up|anymore|no longer|used to|better now)\b/;
+const PAST_PATTERN = /\b(had|was|were)\b.*\b(ago|last (?:week|month|year)|before|previously|in the past)\b/;
+const PRESENT_PATTERN = /\b(still|right now|currently|today|tonight|since|keeps?|getting worse|again)\b/;
+
+const CLAUSE_SPLIT = /[.;!?,]|\b(?:but|however|although|though|except|just|only)\b/;
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', ten: '10'
+};
+
+const WEEKDAYS = 'monday|tuesday|wednesday|thursday|friday|saturday|sunday';
+
+const DURATION_PATTERNS = [
+  new RegExp(`\\bsince (?:yesterday|last night|this morning|this afternoon|last week|the weekend|(?:last )?(?:${WEEKDAYS})|\\d+ (?:hours?|days?|weeks?) ago)\\b`),
+  /\bfor (?:the (?:past|last) )?(?:about |around |almost |over |a |an |a few |a couple (?:of )?|several |\d+ )?(?:hours?|days?|nights?|weeks?|months?)\b/,
+  /\b(?:all night|all day|overnight)\b/,
+  /\b(?:started|began) (?:yesterday|last night|this morning|\d+ (?:hours?|days?|weeks?) ago)\b/
+];
+
+const TOOTH_TYPES: Array<[RegExp, string]> = [
+  [/\bwisdom (?:tooth|teeth)\b/, 'wisdom tooth'],
+  [/\bpremolars?\b/, 'premolar'],
+  [/\bmolars?\b/, 'molar'],
+  [/\b(?:canines?|eye ?teeth|eye ?tooth)\b/, 'canine'],
+  [/\bincisors?\b/, 'incisor'],
+  [/\bfront (?:tooth|teeth)\b/, 'front tooth'],
+  [/\bback (?:tooth|teeth)\b/, 'back tooth']
+];
+
+export class SymptomExtractor {
+  // Classify every configured phrase found in the utterance; a phrase that is active anywhere counts as active
+  static extract(utterance: string, phrases: readonly string[], fuzzyThreshold?: number): ExtractedSymptoms {
+    const text = this.normalize(utterance);
+    const clauses = text.split(CLAUSE_SPLIT).map(clause => clause.trim()).filter(Boolean);
+    const states = this.classifyMentions(clauses, phrases, fuzzyThreshold);
+
+    const pick = (state: MentionState) => [...states.entries()]
+      .filter(([, mentionState]) => mentionState === state)
+      .map(([phrase]) => phrase);
+
+    return {
+      symptoms: pick('active'),
+      negated: pick('negated'),
+      resolved: pick('resolved'),
+      painRating: this.extractPainRating(text),
+      painDescriptor: this.extractPainDescriptor(clauses),
+      duration: this.extractDuration(text),
+      location: this.extractLocation(text)
+    };
+  }
+
+  // Only the phrases that are currently present, e.g. for red-flag checks
+  static findActive(utterance: string, phrases: readonly string[]): string[] {
+    const text = this.normalize(utterance);
+    const clauses = text.split(CLAUSE_SPLIT).map(clause => clause.trim()).filter(Boolean);
+    return [...this.classifyMentions(clauses, phrases).entries()]
+      .filter(([, state]) => state === 'active')
+      .map(([phrase]) => phrase);
+  }
+
+  // Readable summary stored on AppointmentRecord.symptoms
+  static summarize(extracted: ExtractedSymptoms): string {
+    const parts = [`Symptoms: ${extracted.symptoms.join(', ') || 'none reported'}`];
+
+    if (extracted.painRating !== undefined) {
+      parts.push(`Pain: ${extracted.painRating}/10`);
+    } else if (extracted.painDescriptor) {
+      parts.push(`Pain: ${extracted.painDescriptor}`);
+    }
+    if (extracted.duration) {
+      parts.push(`Duration: ${extracted.duration}`);
+    }
+    if (extracted.location) {
+      parts.push(`Location: ${extracted.location.description}`);
+    }
+    if (extracted.negated.length > 0) {
+      parts.push(`Denies: ${extracted.negated.join(', ')}`);
+    }
+    if (extracted.resolved.length > 0) {
+      parts.push(`Resolved: ${extracted.resolved.join(', ')}`);
+    }
+
+    return parts.join(' | ');
+  }
+
+  private static classifyMentions(
+    clauses: string[],
+    phrases: readonly string[],
+    fuzzyThreshold?: number
+  ): Map<string, MentionState> {
+    const states = new Map<string, MentionState>();
+
+    clauses.forEach(clause => {
+      const clauseResolved = RESOLVED_PATTERN.test(clause) ||
+        (PAST_PATTERN.test(clause) && !PRESENT_PATTERN.test(clause));
+
+      phrases.forEach(phrase => {
+        const index = this.findPhrase(clause, phrase, fuzzyThreshold);
+        if (index < 0) return;
+
+        const state: MentionState = this.isNegated(clause.slice(0, index))
+          ? 'negated'
+          : clauseResolved ? 'resolved' : 'active';
+
+        const previous = states.get(phrase);
+        if (!previous || state === 'active' || (previous === 'negated' && state === 'resolved')) {
+          states.set(phrase, state);
+        }
+      });
+    });
+
+    return states;
+  }
+
+  // Position of the phrase in the clause, matching whole words (plus simple suffixes) or a close misspelling
+  private static findPhrase(clause: string, phrase: string, fuzzyThreshold?: number): number {
+    const normalized = this.normalize(phrase);
+    const escaped = normalized.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    const match = new RegExp(`\\b${escaped}(?:s|es|ed|ing|ful|y)?\\b`).exec(clause);
+    if (match) {
+      return match.index;
+    }
+
+    if (fuzzyThreshold !== undefined && TextMatching.containsFuzzyWord(clause, normalized, fuzzyThreshold)) {
+      const word = clause.split(/\s+/).find(candidate =>
+        candidate.length >= 5 && TextMatching.similarity(candidate, normalized) >= fuzzyThreshold
+      );
+      return word ? clause.indexOf(word) : -1;
+    }
+
+    return -1;
+  }
+
+  private static isNegated(before: string): boolean {
+    const words = before.split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW);
+
+    for (let i = words.length - 1; i >= 0; i--) {
+      if (NEGATION_BARRIERS.includes(words[i])) return false;
+      if (NEGATORS.includes(words[i])) return true;
+    }
+    return false;
+  }
+
+  private static extractPainRating(text: string): number | undefined {
+    const numeric = text.replace(/\b(zero|one|two|three|four|five|six|seven|eight|nine|ten)\b/g, word => NUMBER_WORDS[word]);
+
+    const match = numeric.match(/\b(10|[0-9])(?:\.5)?\s*(?:\/|out of|on a scale of)\s*10\b/) ||
+      numeric.match(/\bscale of (?:0|1) to 10\b.*?\b(?:a|an|about|like|maybe|is|it's|its)\s+(10|[0-9])\b/);
+
+    return match ? Number(match[1]) : undefined;
+  }
+
+  private static extractPainDescriptor(clauses: string[]): PainLevel | undefined {
+    const levels: PainLevel[] = ['severe', 'moderate', 'mild'];
+    return levels.find(level =>
+      clauses.some(clause =>
+        painLevelKeywords[level].some(word => {
+          if (word.includes('/')) return false; // numeric ratings are handled by extractPainRating
+          const index = this.findPhrase(clause, word);
+          return index >= 0 && !this.isNegated(clause.slice(0, index));
+        })
+      )
+    );
+  }
+
+  private static extractDuration(text: string): string | undefined {
+    for (const pattern of DURATION_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) return match[0];
+    }
+    return undefined;
+  }
+
+  private static extractLocation(text: string): ToothLocation | undefined {
+    const archMatch = text.match(/\b(upper|top|lower|bottom)\b/);
+    const sideMatch = text.match(/\b(left|right)\b(?!\s+(?:away|now))/);
+    const numbered = text.match(/\btooth (?:number |#)?(\d{1,2})\b/);
+    const typed = TOOTH_TYPES.find(([pattern]) => pattern.test(text));
+
+    const tooth = numbered ? `#${numbered[1]}` : typed?.[1];
+    if (!tooth && !archMatch) {
+      return undefined;
+    }
+
+    const arch = archMatch ? (['upper', 'top'].includes(archMatch[1]) ? 'upper' : 'lower') : undefined;
+    const side = sideMatch ? sideMatch[1] as 'left' | 'right' : undefined;
+
+    return {
+      arch,
+      side,
+      tooth,
+      description: [arch, side, tooth || 'teeth'].filter(Boolean).join(' ')
+    };
+  }
+
+  // Lowercase and strip apostrophes so "don't" and "dont" read the same
+  private static normalize(value: string): string {
+    return (value || '').toLowerCase().replace(/[’']/g, '').replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,169 @@
+// Message Template Engine for Elite Dental AI Widget
+// Renders communicationConfig.templates in the patient's language, formats dates in clinic time and keeps SMS within segment limits
+
+import {
+  businessConfig,
+  communicationConfig,
+  MessageTemplate,
+  SupportedLanguage
+} from '../config/dental';
+
+export type TemplateValue = string | number | Date;
+export type TemplateValues = Record<string, TemplateValue | undefined>;
+
+export interface RenderOptions {
+  language?: string; // patient's preferred language; unsupported values fall back to English
+  enforceSmsLimit?: boolean; // defaults to true
+}
+
+export interface RenderedMessage {
+  template: MessageTemplate;
+  language: SupportedLanguage;
+  body: string;
+  encoding: 'GSM-7' | 'UCS-2';
+  segments: number;
+}
+
+type TemplateSet = Partial<Record<SupportedLanguage, string>> & { en: string };
+
+const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+const LOCALES: Record<SupportedLanguage, string> = {
+  en: 'en-US',
+  es: 'es-US',
+  fr: 'fr-CA'
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+// GSM 03.38 basic character set; anything outside it forces UCS-2
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€'; // each costs two septets
+
+export class TemplateEngine {
+  // Fill a template; throws when a placeholder has no value or the SMS would exceed the segment limit
+  static render(template: MessageTemplate, values: TemplateValues = {}, options: RenderOptions = {}): RenderedMessage {
+    const language = this.resolveLanguage(options.language);
+    const set = communicationConfig.templates[template] as TemplateSet;
+    const text = set[language] ?? set.en;
+    const usedLanguage = set[language] ? language : DEFAULT_LANGUAGE;
+
+    const merged: TemplateValues = {
+      clinicName: businessConfig.clinicName,
+      phone: businessConfig.phone,
+      ...values
+    };
+
+    const missing = this.getPlaceholders(text).filter(name => merged[name] === undefined || merged[name] === '');
+    if (missing.length > 0) {
+      throw new Error(`Template ${template} is missing values for: ${missing.join(', ')}`);
+    }
+
+    const body = text
+      .replace(PLACEHOLDER, (_, name: string) => this.formatValue(name, merged[name]!, usedLanguage))
+      .replace(/\.\.(?=\s|$)/g, '.') // locale times such as "10:30 a.m." already end in a period
+      .replace(/[^\S\n]{2,}/g, ' ') // line breaks are kept for printed letters
+      .trim();
+
+    const { encoding, segments } = this.measureSms(body);
+    if (options.enforceSmsLimit !== false && segments > communicationConfig.sms.maxSegments) {
+      throw new Error(
+        `Template ${template} (${usedLanguage}) renders to ${segments} SMS segments; the limit is ${communicationConfig.sms.maxSegments}`
+      );
+    }
+
+    return { template, language: usedLanguage, body, encoding, segments };
+  }
+
+  // Render with a list placeholder (e.g. care instructions), dropping items from the end until the SMS fits
+  static renderList(
+    template: MessageTemplate,
+    values: TemplateValues,
+    listKey: string,
+    items: string[],
+    options: RenderOptions = {}
+  ): RenderedMessage {
+    for (let count = items.length; count > 1; count--) {
+      const rendered = this.render(template, { ...values, [listKey]: items.slice(0, count).join(' ') }, {
+        ...options,
+        enforceSmsLimit: false
+      });
+      if (rendered.segments <= communicationConfig.sms.maxSegments) {
+        return rendered;
+      }
+    }
+    return this.render(template, { ...values, [listKey]: items.slice(0, 1).join(' ') }, options);
+  }
+
+  // Convenience for callers that only need the text
+  static renderText(template: MessageTemplate, values: TemplateValues = {}, options: RenderOptions = {}): string {
+    return this.render(template, values, options).body;
+  }
+
+  static resolveLanguage(preferred?: string): SupportedLanguage {
+    if (!preferred) return DEFAULT_LANGUAGE;
+    const code = preferred.trim().toLowerCase().split(/[-_]/)[0];
+    return (communicationConfig.languageSupport as readonly string[]).includes(code)
+      ? code as SupportedLanguage
+      : DEFAULT_LANGUAGE;
+  }
+
+  // BCP 47 locale for a language, e.g. for the voice transcriber
+  static getLocale(language?: string): string {
+    return LOCALES[this.resolveLanguage(language)];
+  }
+
+  static getPlaceholders(text: string): string[] {
+    return [...new Set([...text.matchAll(PLACEHOLDER)].map(match => match[1]))];
+  }
+
+  // Character encoding and billable segment count of an SMS body
+  static measureSms(body: string): { encoding: 'GSM-7' | 'UCS-2'; segments: number } {
+    const chars = [...body];
+    const isGsm = chars.every(char => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+
+    if (isGsm) {
+      const septets = chars.reduce((total, char) => total + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+      return { encoding: 'GSM-7', segments: septets <= 160 ? 1 : Math.ceil(septets / 153) };
+    }
+
+    // UCS-2 counts UTF-16 code units, so emoji take two
+    const units = body.length;
+    return { encoding: 'UCS-2', segments: units <= 70 ? 1 : Math.ceil(units / 67) };
+  }
+
+  // Every translation must use the same placeholders as the English text; returns one line per problem
+  static validateTemplates(): string[] {
+    const problems: string[] = [];
+
+    (Object.keys(communicationConfig.templates) as MessageTemplate[]).forEach(template => {
+      const set = communicationConfig.templates[template] as TemplateSet;
+      const expected = this.getPlaceholders(set.en).sort().join(',');
+
+      communicationConfig.languageSupport.forEach(language => {
+        const text = set[language];
+        if (text === undefined) return; // falls back to English
+        const actual = this.getPlaceholders(text).sort().join(',');
+        if (actual !== expected) {
+          problems.push(`${template}.${language} uses {${actual}} but en uses {${expected}}`);
+        }
+      });
+    });
+
+    return problems;
+  }
+
+  // Dates render in the clinic's time zone: *time placeholders as a time of day, everything else as a date
+  private static formatValue(name: string, value: TemplateValue, language: SupportedLanguage): string {
+    if (!(value instanceof Date)) {
+      return String(value);
+    }
+
+    const options: Intl.DateTimeFormatOptions = /time$/i.test(name)
+      ? { hour: 'numeric', minute: '2-digit' }
+      : { weekday: 'long', month: 'long', day: 'numeric' };
+
+    return value.toLocaleString(LOCALES[language], { ...options, timeZone: businessConfig.timeZone });
+  }
+}
@@ -0,0 +1,174 @@
+// Assistant Tool Registry for Elite Dental AI Widget
+// Declares assistant tools once (name, JSON-schema parameters, handler) and runs Vapi tool calls against them
+
+import type { VapiToolCall, VapiToolResult } from '../types/vapi';
+
+export interface ToolParameterSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, ToolParameterSchema>;
+  required?: string[];
+  enum?: readonly (string | number)[];
+  items?: ToolParameterSchema;
+  pattern?: string;
+}
+
+export interface ToolCallContext {
+  toolCallId: string;
+  callId?: string;
+}
+
+export interface ToolDefinition<TArgs = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: ToolParameterSchema;
+  handler: (args: TArgs, context: ToolCallContext) => Promise<unknown>;
+}
+
+export class ToolRegistry {
+  private static tools: Map<string, ToolDefinition> = new Map();
+  private static handlerTimeoutMs = 20000;
+
+  static register<TArgs>(tool: ToolDefinition<TArgs>): void {
+    if (this.tools.has(tool.name)) {
+      console.warn(`Tool ${tool.name} is already registered - replacing it`);
+    }
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+  }
+
+  static unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  static has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  // Function definitions in the shape VapiAssistantOptions.model.functions expects
+  static getFunctionDefinitions(): Array<{ name: string; description: string; parameters: ToolParameterSchema }> {
+    return [...this.tools.values()].map(({ name, description, parameters }) => ({ name, description, parameters }));
+  }
+
+  // Run every tool call concurrently; each result carries the id of the call it answers
+  static async executeToolCalls(toolCalls: VapiToolCall[], callId?: string): Promise<VapiToolResult[]> {
+    return Promise.all(toolCalls.map(async toolCall => {
+      const name = toolCall.function?.name;
+
+      try {
+        const args = this.parseArguments(toolCall.function?.arguments);
+        const result = await this.execute(name, args, { toolCallId: toolCall.id, callId });
+        return { toolCallId: toolCall.id, name, result };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown tool error';
+        console.error(`Tool ${name} failed:`, errorMessage);
+        return { toolCallId: toolCall.id, name, error: errorMessage };
+      }
+    }));
+  }
+
+  // Validate and run a single tool; throws on unknown tools or invalid arguments
+  static async execute(name: string, args: Record<string, unknown>, context: ToolCallContext): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const errors = this.validate(tool.parameters, args, 'arguments');
+    if (errors.length > 0) {
+      throw new Error(`Invalid arguments for ${name}: ${errors.join('; ')}`);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Tool ${name} timed out`)), this.handlerTimeoutMs);
+    });
+
+    try {
+      return await Promise.race([tool.handler(args, context), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static parseArguments(raw: string | Record<string, unknown> | undefined): Record<string, unknown> {
+    if (!raw) {
+      return {};
+    }
+    if (typeof raw !== 'string') {
+      return raw;
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('arguments must be a JSON object');
+      }
+      return parsed;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'malformed JSON';
+      throw new Error(`Could not parse tool arguments: ${errorMessage}`);
+    }
+  }
+
+  // Minimal JSON-schema validation covering the keywords our tools use
+  static validate(schema: ToolParameterSchema, value: unknown, path: string): string[] {
+    const errors: string[] = [];
+
+    switch (schema.type) {
+      case 'object': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          return [`${path} must be an object`];
+        }
+        const record = value as Record<string, unknown>;
+        (schema.required || []).forEach(key => {
+          if (record[key] === undefined || record[key] === null || record[key] === '') {
+            errors.push(`${path}.${key} is required`);
+          }
+        });
+        Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+          if (record[key] !== undefined && record[key] !== null) {
+            errors.push(...this.validate(propertySchema, record[key], `${path}.${key}`));
+          }
+        });
+        return errors;
+      }
+      case 'array':
+        if (!Array.isArray(value)) {
+          return [`${path} must be an array`];
+        }
+        if (schema.items) {
+          value.forEach((item, index) => errors.push(...this.validate(schema.items!, item, `${path}[${index}]`)));
+        }
+        return errors;
+      case 'string':
+        if (typeof value !== 'string') {
+          return [`${path} must be a string`];
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+          errors.push(`${path} does not match ${schema.pattern}`);
+        }
+        break;
+      case 'number':
+        if (typeof value !== 'number' || isNaN(value)) {
+          return [`${path} must be a number`];
+        }
+        break;
+      case 'integer':
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+          return [`${path} must be an integer`];
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          return [`${path} must be a boolean`];
+        }
+        break;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+      errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+    }
+
+    return errors;
+  }
+}
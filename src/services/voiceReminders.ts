@@ -0,0 +1,491 @@
+// Outbound Voice Reminders for Elite Dental AI Widget
+// Places Vapi phone calls with a dedicated reminder assistant; once a call ends, the background leader reads it back
+// through the authenticated voice proxy and writes the patient's decision to the appointment or recall
+
+import { businessConfig, integrationConfig, MessageTemplate, SupportedLanguage } from '../config/dental';
+import type { VapiAssistantOptions } from '../types/vapi';
+import { airtableService, AppointmentRecord } from './airtableService';
+import { AppointmentScheduler } from './appointmentScheduler';
+import { NoShowDefender } from './noShowDefender';
+import { SchedulingEngine, AppointmentSlot } from './schedulingEngine';
+import { OutboundQueue } from './outboundQueue';
+import { SmsMessenger } from './smsMessenger';
+import { TemplateEngine, TemplateValues } from './templateEngine';
+import type { PatientRecall } from './recallAutomator';
+import { ClinicTime } from '../utils/clinicTime';
+
+export type VoiceCallPurpose = 'appointment_reminder' | 'recall';
+export type VoiceCallOutcome = NonNullable<AppointmentRecord['lastReminderOutcome']> | 'booked';
+
+export interface OutboundCallResult {
+  status: 'started' | 'unavailable' | 'failed';
+  callId?: string;
+  error?: string;
+}
+
+// What a call was placed for, kept on our side - the record to update never comes from the call itself
+interface OutboundCall {
+  callId: string;
+  purpose: VoiceCallPurpose;
+  appointmentId?: string;
+  recallId?: string;
+  procedure: string;
+  patientName: string;
+  patientId?: string;
+  phone: string;
+  language?: string;
+  placedAt: string;
+}
+
+type OutboundCallDetails = Omit<OutboundCall, 'callId' | 'placedAt'>;
+
+// Filled by Vapi's post-call analysis from the conversation (analysisPlan.structuredDataPlan)
+interface CallDecision {
+  decision?: 'confirm' | 'cancel' | 'reschedule' | 'book' | 'undecided';
+  date?: string; // YYYY-MM-DD
+  time?: string; // HH:mm
+  reason?: string;
+}
+
+// GET /call/{id} from the voice proxy
+interface VapiCallRecord {
+  id: string;
+  status?: string; // queued, ringing, in-progress, forwarding, ended
+  endedReason?: string;
+  analysis?: { structuredData?: CallDecision };
+}
+
+const CALLS_KEY = 'dental_voice_calls';
+
+const REMINDER_ASSISTANT: Pick<VapiAssistantOptions, 'voice' | 'recordingEnabled' | 'hipaaCompliant' | 'silenceTimeoutSeconds' | 'maxDurationSeconds'> = {
+  voice: {
+    provider: '11labs',
+    voiceId: 'pNInz6obpgDQGcFmaJgB',
+    stability: 0.5,
+    similarityBoost: 0.8
+  },
+  recordingEnabled: false,
+  hipaaCompliant: true,
+  silenceTimeoutSeconds: 20,
+  maxDurationSeconds: 300
+};
+
+const LANGUAGE_NAMES: Record<SupportedLanguage, string> = { en: 'English', es: 'Spanish', fr: 'French' };
+
+// Vapi endedReason values that mean nobody picked up
+const NO_ANSWER_REASONS = ['customer-did-not-answer', 'customer-busy', 'customer-did-not-give-microphone-permission'];
+const COMPLETED_REASONS = ['customer-ended-call', 'assistant-ended-call', 'assistant-said-end-call-phrase', 'silence-timed-out', 'exceeded-max-duration'];
+
+export class VoiceReminders {
+  private static timer: ReturnType<typeof setInterval> | null = null;
+  private static polling: Promise<number> | null = null;
+  private static memoryStore: Map<string, string> = new Map(); // used where localStorage is unavailable
+
+  static isAvailable(): boolean {
+    return !!this.getEndpoint() && !!import.meta.env.VITE_VAPI_PHONE_NUMBER_ID;
+  }
+
+  static async callForAppointment(appointment: AppointmentRecord, language?: string): Promise<OutboundCallResult> {
+    const start = ClinicTime.clinicTimeToDate(appointment.appointmentDate, appointment.appointmentTime);
+    const values = {
+      name: appointment.patientName,
+      procedure: appointment.procedure,
+      date: start,
+      time: start
+    };
+
+    return this.placeCall({
+      purpose: 'appointment_reminder',
+      appointmentId: appointment.id,
+      procedure: appointment.procedure,
+      patientName: appointment.patientName,
+      patientId: appointment.patientId,
+      phone: appointment.phone,
+      language
+    }, {
+      firstMessage: TemplateEngine.renderText('voice_reminder_greeting', values, { language, enforceSmsLimit: false }),
+      voicemailMessage: TemplateEngine.renderText('voice_reminder_voicemail', values, { language, enforceSmsLimit: false })
+    });
+  }
+
+  static async callForRecall(recall: PatientRecall): Promise<OutboundCallResult> {
+    if (!recall.phone) {
+      return { status: 'failed', error: 'No phone number for recall' };
+    }
+
+    const values = { name: recall.patientName, procedure: recall.procedure };
+    const language = recall.preferredLanguage;
+
+    return this.placeCall({
+      purpose: 'recall',
+      recallId: recall.id,
+      procedure: recall.procedure,
+      patientName: recall.patientName,
+      phone: recall.phone,
+      language
+    }, {
+      firstMessage: TemplateEngine.renderText('voice_recall_greeting', values, { language, enforceSmsLimit: false }),
+      voicemailMessage: TemplateEngine.renderText('voice_recall_voicemail', values, { language, enforceSmsLimit: false })
+    });
+  }
+
+  // Separate from the inbound widget assistant: short calls, no tools, patient's language. The decision is
+  // captured by the post-call analysis and acted on afterwards, so the patient is told a text will follow
+  static buildAssistant(
+    call: OutboundCallDetails,
+    messages: { firstMessage: string; voicemailMessage: string }
+  ): VapiAssistantOptions {
+    const today = ClinicTime.getClinicDateParts().date;
+    const task = call.purpose === 'recall'
+      ? `The patient is due for a ${call.procedure} visit. If they want to book, ask which day and time suit them.`
+      : `The patient has a ${call.procedure} appointment. Find out whether they will attend, want to cancel, or want another time; ` +
+        'for another time, ask which day and time suit them.';
+
+    return {
+      ...REMINDER_ASSISTANT,
+      transcriber: {
+        provider: 'deepgram',
+        model: 'nova-2',
+        language: TemplateEngine.getLocale(call.language)
+      },
+      model: {
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+        temperature: 0.3,
+        systemMessage: [
+          `You are calling ${call.patientName} on behalf of ${businessConfig.clinicName}.`,
+          task,
+          'Never promise a specific time - say the clinic will text to confirm any new booking.',
+          `Today is ${today}. Speak ${LANGUAGE_NAMES[TemplateEngine.resolveLanguage(call.language)]}.`,
+          'Never discuss medical details. Keep the call under two minutes and end it politely once the patient has decided.'
+        ].join(' ')
+      },
+      firstMessage: messages.firstMessage,
+      voicemailMessage: messages.voicemailMessage,
+      endCallMessage: 'Thank you, goodbye!',
+      analysisPlan: {
+        structuredDataPlan: {
+          enabled: true,
+          schema: {
+            type: 'object',
+            properties: {
+              decision: {
+                type: 'string',
+                enum: call.purpose === 'recall' ? ['book', 'undecided'] : ['confirm', 'cancel', 'reschedule', 'undecided']
+              },
+              date: { type: 'string', description: `Day the patient chose, YYYY-MM-DD. Today is ${today}.` },
+              time: { type: 'string', description: 'Time the patient chose, HH:mm 24-hour, if they gave one' },
+              reason: { type: 'string', description: 'Why the patient is cancelling, if they said' }
+            },
+            required: ['decision']
+          }
+        }
+      }
+    };
+  }
+
+  // Read back every call still on our list; ended calls are settled and dropped. Returns how many were settled
+  static pollCalls(): Promise<number> {
+    if (!this.polling) {
+      this.polling = this.settleEndedCalls().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  static start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.pollCalls().catch(error => console.error('Voice call poll failed:', error));
+    }, integrationConfig.apis.voice.callPollIntervalMs);
+    this.pollCalls().catch(error => console.error('Voice call poll failed:', error));
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static async placeCall(
+    details: OutboundCallDetails,
+    messages: { firstMessage: string; voicemailMessage: string }
+  ): Promise<OutboundCallResult> {
+    if (!this.isAvailable()) {
+      return { status: 'unavailable', error: 'Outbound calling is not configured' };
+    }
+
+    const number = SmsMessenger.toE164(details.phone);
+    if (!number) {
+      return { status: 'failed', error: `Invalid phone number: ${details.phone}` };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), integrationConfig.apis.voice.timeout);
+
+    try {
+      const response = await fetch(`${this.getEndpoint()}/call`, {
+        method: 'POST',
+        headers: {
+          ...this.getAuthHeaders(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          phoneNumberId: import.meta.env.VITE_VAPI_PHONE_NUMBER_ID,
+          customer: { number, name: details.patientName },
+          assistant: this.buildAssistant(details, messages)
+        }),
+        signal: controller.signal
+      });
+
+      const payload = await response.json().catch(() => ({}));
+      if (!response.ok || !payload.id) {
+        throw new Error(`Voice API error: ${response.status} - ${payload.message || response.statusText}`);
+      }
+
+      this.write(CALLS_KEY, [...this.getCalls(), { ...details, callId: payload.id, placedAt: new Date().toISOString() }]);
+      console.log(`📞 ${details.purpose} call placed to ${details.patientName}:`, payload.id);
+      return { status: 'started', callId: payload.id };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown voice API error';
+      console.error(`📞 ${details.purpose} call to ${details.patientName} failed:`, errorMessage);
+      await this.recordOutcome(details, 'failed', errorMessage);
+      return { status: 'failed', error: errorMessage };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static async settleEndedCalls(): Promise<number> {
+    const { callStaleMinutes } = integrationConfig.apis.voice;
+    let settled = 0;
+
+    for (const call of this.getCalls()) {
+      try {
+        const record = await this.fetchCall(call.callId);
+        if (record.status !== 'ended') {
+          if (Date.now() - new Date(call.placedAt).getTime() > callStaleMinutes * 60 * 1000) {
+            this.removeCall(call.callId);
+            await this.recordOutcome(call, 'failed', `still ${record.status || 'unknown'} after ${callStaleMinutes} minutes`);
+          }
+          continue;
+        }
+
+        // Dropped first so a failure while writing back never acts on the same call twice
+        this.removeCall(call.callId);
+        const outcome = await this.settleCall(call, record);
+        console.log(`📞 ${call.purpose} call ${call.callId} ended (${record.endedReason}): ${outcome}`);
+        settled++;
+      } catch (error) {
+        console.error(`Voice call ${call.callId} could not be settled:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  // The patient's decision wins; otherwise the way the call ended says what happened
+  private static async settleCall(call: OutboundCall, record: VapiCallRecord): Promise<VoiceCallOutcome> {
+    const decided = await this.applyDecision(call, record.analysis?.structuredData);
+    if (decided) {
+      return decided;
+    }
+
+    const endedReason = record.endedReason || '';
+    const outcome: VoiceCallOutcome = endedReason === 'voicemail'
+      ? 'voicemail'
+      : NO_ANSWER_REASONS.includes(endedReason)
+        ? 'no_answer'
+        : COMPLETED_REASONS.includes(endedReason)
+          ? 'no_decision'
+          : 'failed';
+    await this.recordOutcome(call, outcome, endedReason !== outcome ? endedReason : undefined);
+    return outcome;
+  }
+
+  // null when the analysis holds no decision this call could make
+  private static async applyDecision(call: OutboundCall, decision?: CallDecision): Promise<VoiceCallOutcome | null> {
+    const isReminder = call.purpose === 'appointment_reminder';
+
+    switch (decision?.decision) {
+      case 'confirm':
+        if (!isReminder) return null;
+        await this.recordOutcome(call, 'confirmed');
+        return 'confirmed';
+
+      case 'cancel':
+        if (!isReminder) return null;
+        await NoShowDefender.handleCancellation(call.appointmentId!, decision.reason || 'Cancelled on reminder call');
+        await this.recordOutcome(call, 'cancelled');
+        return 'cancelled';
+
+      case 'reschedule':
+      case 'book': {
+        if ((decision.decision === 'reschedule') !== isReminder) return null;
+        if (!decision.date || !/^\d{4}-\d{2}-\d{2}$/.test(decision.date)) return null;
+        const time = decision.time && /^\d{2}:\d{2}$/.test(decision.time) ? decision.time : undefined;
+
+        const slot = await AppointmentScheduler.findSlotNear(call.procedure, decision.date, time);
+        if (!slot) {
+          await this.textPatient(call, 'reschedule_unavailable', { date: ClinicTime.clinicTimeToDate(decision.date, '12:00') });
+          await this.recordOutcome(call, 'no_decision', `asked for ${decision.date}${time ? ` ${time}` : ''} - no opening`);
+          return 'no_decision';
+        }
+
+        let procedure = call.procedure;
+        if (isReminder) {
+          const appointment = await airtableService.getAppointment(call.appointmentId!);
+          if (!appointment) throw new Error(`Appointment ${call.appointmentId} not found`);
+          await AppointmentScheduler.moveAppointment(appointment, slot, 'Rescheduled on reminder call');
+          await this.recordOutcome(call, 'rescheduled');
+        } else {
+          procedure = (await this.bookRecallVisit(call, slot)).procedure;
+        }
+
+        await this.textPatient(call, 'appointment_booked', {
+          procedure,
+          date: slot.start,
+          time: slot.start,
+          provider: slot.provider
+        });
+        return isReminder ? 'rescheduled' : 'booked';
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private static async bookRecallVisit(call: OutboundCall, slot: AppointmentSlot): Promise<AppointmentRecord> {
+    const patient = call.patientId
+      ? await airtableService.getPatient(call.patientId)
+      : await airtableService.findPatientByPhone(call.phone);
+    if (!patient?.id) {
+      throw new Error('No patient record for this recall - the front desk has to book it');
+    }
+
+    const procedure = SchedulingEngine.resolveProcedure(call.procedure) || 'cleaning';
+    const appointment = await SchedulingEngine.bookSlot(slot, {
+      patientId: patient.id,
+      patientName: patient.patientName,
+      phone: patient.phone,
+      procedure,
+      status: 'scheduled',
+      priority: 'routine',
+      notes: `Booked on ${call.procedure} recall call`,
+      remindersSent: 0,
+      createdBy: 'ai-assistant'
+    });
+
+    if (call.recallId) {
+      await airtableService.updateRecall(call.recallId, {
+        status: 'scheduled',
+        appointmentId: appointment.id,
+        lastContactDate: ClinicTime.getClinicDateParts().date
+      });
+    }
+    return appointment;
+  }
+
+  private static async recordOutcome(call: OutboundCallDetails, outcome: VoiceCallOutcome, detail?: string): Promise<void> {
+    if (call.purpose === 'recall') {
+      console.log(`📞 Recall call outcome for ${call.patientName}: ${outcome}`);
+      await this.recordRecallContact(call, outcome);
+      return;
+    }
+    if (!call.appointmentId || outcome === 'booked') return;
+
+    try {
+      const appointment = await airtableService.getAppointment(call.appointmentId);
+      const note = `Voice reminder: ${outcome}${detail ? ` (${detail})` : ''}`;
+      await airtableService.updateAppointment(call.appointmentId, {
+        lastReminderOutcome: outcome,
+        ...(outcome === 'confirmed' ? { status: 'confirmed' as const } : {}),
+        notes: appointment?.notes ? `${appointment.notes}\n${note}` : note
+      });
+    } catch (error) {
+      console.error('Failed to record voice reminder outcome:', error);
+    }
+  }
+
+  // A call the patient heard (or a voicemail left) makes the recall contacted; booking already marked it scheduled
+  private static async recordRecallContact(call: OutboundCallDetails, outcome: VoiceCallOutcome): Promise<void> {
+    if (!call.recallId || (outcome !== 'voicemail' && outcome !== 'no_decision')) return;
+
+    try {
+      await airtableService.updateRecall(call.recallId, {
+        status: 'contacted',
+        lastContactDate: ClinicTime.getClinicDateParts().date
+      });
+    } catch (error) {
+      console.error('Failed to record recall call outcome:', error);
+    }
+  }
+
+  private static async textPatient(call: OutboundCall, template: MessageTemplate, values: TemplateValues): Promise<void> {
+    const message = TemplateEngine.renderText(template, values, { language: call.language });
+    const result = await OutboundQueue.send(call.phone, message, template);
+    if (result.status === 'dead_lettered') {
+      console.error(`📱 SMS to ${call.phone} after the reminder call failed:`, result.error);
+    }
+  }
+
+  private static async fetchCall(callId: string): Promise<VapiCallRecord> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), integrationConfig.apis.voice.timeout);
+
+    try {
+      const response = await fetch(`${this.getEndpoint()}/call/${encodeURIComponent(callId)}`, {
+        headers: this.getAuthHeaders(),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        throw new Error(`Voice API error: ${response.status} - ${response.statusText}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private static getCalls(): OutboundCall[] {
+    return this.read<OutboundCall[]>(CALLS_KEY, []);
+  }
+
+  private static removeCall(callId: string): void {
+    this.write(CALLS_KEY, this.getCalls().filter(call => call.callId !== callId));
+  }
+
+  private static getAuthHeaders(): Record<string, string> {
+    return { 'Authorization': `Bearer ${import.meta.env.VITE_VOICE_API_TOKEN || ''}` };
+  }
+
+  private static getEndpoint(): string {
+    return import.meta.env.VITE_VOICE_ENDPOINT || '';
+  }
+
+  private static read<T>(key: string, fallback: T): T {
+    try {
+      const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(key) : this.memoryStore.get(key);
+      return JSON.parse(raw || 'null') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private static write(key: string, value: unknown): void {
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(key, JSON.stringify(value));
+      } else {
+        this.memoryStore.set(key, JSON.stringify(value));
+      }
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    }
+  }
+}
@@ -42,20 +42,31 @@ export interface VapiMessage {
   type: 'transcript' | 'function-call' | 'conversation-update' | 'tool-calls' | 'speech-update';
   role?: 'user' | 'assistant' | 'system';
   transcript?: string;
+  transcriptType?: 'partial' | 'final';
   text?: string;
   confidence?: number;
   functionCall?: {
     name: string;
     parameters: Record<string, any>;
   };
-  toolCalls?: Array<{
-    id: string;
-    type: string;
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
+  toolCalls?: VapiToolCall[];
+  toolCallList?: VapiToolCall[];
+}
+
+export interface VapiToolCall {
+  id: string;
+  type: string;
+  function: {
+    name: string;
+    arguments: string | Record<string, unknown>;
+  };
+}
+
+export interface VapiToolResult {
+  toolCallId: string;
+  name: string;
+  result?: unknown;
+  error?: string;
 }
 
 export interface VapiAssistantOptions {
@@ -67,7 +78,7 @@ export interface VapiAssistantOptions {
     keywords?: string[];
   };
   voice?: {
-    provider: 'elevenlabs' | 'playht' | 'rime-ai' | 'azure';
+    provider: 'elevenlabs' | '11labs' | 'playht' | 'rime-ai' | 'azure';
     voiceId?: string;
     stability?: number;
     similarityBoost?: number;
@@ -92,6 +103,14 @@ export interface VapiAssistantOptions {
   responseDelaySeconds?: number;
   interruptionThreshold?: number;
   backgroundSound?: 'office' | 'none';
+  firstMessage?: string;
   endCallMessage?: string;
   voicemailMessage?: string;
+  maxDurationSeconds?: number;
+  analysisPlan?: {
+    structuredDataPlan?: {
+      enabled: boolean;
+      schema: Record<string, unknown>;
+    };
+  };
 }
\ No newline at end of file
@@ -0,0 +1,125 @@
+// Clinic Time Zone Helpers
+// Converts between real instants and the clinic's wall-clock date/time strings
+
+import { businessConfig } from '../config/dental';
+
+export type Weekday = keyof typeof businessConfig.hours;
+
+export interface ClinicDateParts {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  weekday: Weekday;
+  minutes: number; // minutes since clinic-local midnight
+}
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export class ClinicTime {
+  private static formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23'
+      });
+      this.formatters.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+
+  // Wall-clock components of an instant in the given time zone
+  private static getZonedComponents(instant: Date, timeZone: string): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+  } {
+    const parts = this.getFormatter(timeZone).formatToParts(instant);
+    const value = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value || 0);
+
+    return {
+      year: value('year'),
+      month: value('month'),
+      day: value('day'),
+      hour: value('hour') % 24,
+      minute: value('minute'),
+      second: value('second')
+    };
+  }
+
+  // Offset of the time zone from UTC at the given instant, in minutes
+  private static getOffsetMinutes(instant: Date, timeZone: string): number {
+    const c = this.getZonedComponents(instant, timeZone);
+    const asUTC = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+    return Math.round((asUTC - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+  }
+
+  static getClinicDateParts(instant: Date = new Date(), timeZone: string = businessConfig.timeZone): ClinicDateParts {
+    const c = this.getZonedComponents(instant, timeZone);
+    const date = `${c.year}-${this.pad(c.month)}-${this.pad(c.day)}`;
+
+    return {
+      date,
+      time: `${this.pad(c.hour)}:${this.pad(c.minute)}`,
+      weekday: this.getWeekday(date),
+      minutes: c.hour * 60 + c.minute
+    };
+  }
+
+  // Instant at which the clinic's wall clock reads `date` `time`
+  static clinicTimeToDate(date: string, time: string, timeZone: string = businessConfig.timeZone): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const wallClockAsUTC = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Resolve the offset twice so instants near a DST transition land correctly
+    let offset = this.getOffsetMinutes(new Date(wallClockAsUTC), timeZone);
+    const firstGuess = wallClockAsUTC - offset * 60000;
+    offset = this.getOffsetMinutes(new Date(firstGuess), timeZone);
+
+    return new Date(wallClockAsUTC - offset * 60000);
+  }
+
+  static getWeekday(date: string): Weekday {
+    const [year, month, day] = date.split('-').map(Number);
+    return WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  }
+
+  static addDays(date: string, days: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const shifted = new Date(Date.UTC(year, month - 1, day + days));
+    return shifted.toISOString().split('T')[0];
+  }
+
+  // Calendar months; a day past the end of the target month lands on its last day (Aug 31 + 6 -> Feb 28)
+  static addMonths(date: string, months: number): string {
+    const [year, month, day] = date.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+    const shifted = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)));
+    return shifted.toISOString().split('T')[0];
+  }
+
+  static toMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + (minute || 0);
+  }
+
+  static fromMinutes(minutes: number): string {
+    return `${this.pad(Math.floor(minutes / 60))}:${this.pad(minutes % 60)}`;
+  }
+
+  private static pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
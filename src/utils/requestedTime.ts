@@ -0,0 +1,96 @@
+// Requested Time Parsing
+// Reads free-text day/time requests such as "next Tuesday 2pm" or "10/24 morning" as clinic-local date and time
+
+import { ClinicTime, Weekday } from './clinicTime';
+
+export interface RequestedTime {
+  date: string; // YYYY-MM-DD in clinic time zone
+  time?: string; // HH:mm in clinic time zone, when the patient named one
+}
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const PARTS_OF_DAY: Record<string, string> = {
+  morning: '09:00',
+  noon: '12:00',
+  afternoon: '13:00',
+  evening: '16:00'
+};
+
+export class RequestedTimeParser {
+  // Returns null unless a day can be identified; a time on its own is too ambiguous to act on
+  static parse(text: string, now: Date = new Date()): RequestedTime | null {
+    if (!text || typeof text !== 'string') return null;
+
+    const lower = text.toLowerCase();
+    const date = this.parseDate(lower, now);
+    if (!date) return null;
+
+    const time = this.parseTime(lower);
+    return time ? { date, time } : { date };
+  }
+
+  private static parseDate(text: string, now: Date): string | null {
+    const today = ClinicTime.getClinicDateParts(now);
+
+    if (/\btoday\b/.test(text)) return today.date;
+    if (/\btomorrow\b/.test(text)) return ClinicTime.addDays(today.date, 1);
+
+    // Next occurrence of a weekday - "friday" said on a Friday means next week
+    const weekdayIndex = WEEKDAYS.findIndex(day => new RegExp(`\\b${day.slice(0, 3)}(${day.slice(3)})?\\b`).test(text));
+    if (weekdayIndex >= 0) {
+      const offset = (weekdayIndex - WEEKDAYS.indexOf(today.weekday) + 7) % 7 || 7;
+      return ClinicTime.addDays(today.date, offset);
+    }
+
+    const [year] = today.date.split('-').map(Number);
+
+    const numeric = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+    if (numeric) {
+      const explicitYear = numeric[3] ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : undefined;
+      return this.toUpcomingDate(Number(numeric[1]), Number(numeric[2]), today.date, year, explicitYear);
+    }
+
+    const named = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/);
+    if (named) {
+      return this.toUpcomingDate(MONTHS.indexOf(named[1]) + 1, Number(named[2]), today.date, year);
+    }
+
+    return null;
+  }
+
+  private static parseTime(text: string): string | null {
+    const meridiem = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|$|[^a-z])/);
+    if (meridiem) {
+      const hour = Number(meridiem[1]) % 12 + (meridiem[3].startsWith('p') ? 12 : 0);
+      return this.toTime(hour, Number(meridiem[2] || 0));
+    }
+
+    const clock = text.match(/\b(\d{1,2}):(\d{2})\b/);
+    if (clock) {
+      // "2:30" with no am/pm during clinic hours is an afternoon time
+      const hour = Number(clock[1]);
+      return this.toTime(hour < 7 ? hour + 12 : hour, Number(clock[2]));
+    }
+
+    const part = Object.keys(PARTS_OF_DAY).find(key => new RegExp(`\\b${key}\\b`).test(text));
+    return part ? PARTS_OF_DAY[part] : null;
+  }
+
+  // Month/day without a year means the next time that date comes round
+  private static toUpcomingDate(month: number, day: number, today: string, year: number, explicitYear?: number): string | null {
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    const build = (y: number) => `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    const candidate = build(explicitYear || year);
+    if (ClinicTime.addDays(candidate, 0) !== candidate) return null; // e.g. 2/30
+
+    return explicitYear || candidate >= today ? candidate : build(year + 1);
+  }
+
+  private static toTime(hour: number, minute: number): string | null {
+    if (hour > 23 || minute > 59) return null;
+    return ClinicTime.fromMinutes(hour * 60 + minute);
+  }
+}
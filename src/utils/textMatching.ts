@@ -0,0 +1,49 @@
+// Text Matching Helpers
+// Shared fuzzy matching for keyword detection in caller utterances
+
+export class TextMatching {
+  // Similarity between 0 and 1 based on edit distance relative to the longer string
+  static similarity(str1: string, str2: string): number {
+    if (!str1 || !str2) return 0;
+
+    const longer = str1.length > str2.length ? str1 : str2;
+    const shorter = str1.length > str2.length ? str2 : str1;
+
+    if (longer.length === 0) return 1;
+
+    const editDistance = this.levenshteinDistance(longer, shorter);
+    return (longer.length - editDistance) / longer.length;
+  }
+
+  // Whether any word of the utterance is a close misspelling of a single-word keyword
+  static containsFuzzyWord(utterance: string, keyword: string, threshold = 0.8): boolean {
+    // Short words are too easily confused ("pain" / "paint"), so they must match exactly
+    if (keyword.includes(' ') || keyword.length < 5) return false;
+
+    return utterance
+      .toLowerCase()
+      .split(/[^a-z']+/)
+      .some(word => word.length >= 5 && this.similarity(word, keyword) >= threshold);
+  }
+
+  // Levenshtein distance calculation for fuzzy matching
+  static levenshteinDistance(str1: string, str2: string): number {
+    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+
+    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+
+    for (let j = 1; j <= str2.length; j++) {
+      for (let i = 1; i <= str1.length; i++) {
+        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+        matrix[j][i] = Math.min(
+          matrix[j][i - 1] + 1,
+          matrix[j - 1][i] + 1,
+          matrix[j - 1][i - 1] + indicator
+        );
+      }
+    }
+
+    return matrix[str2.length][str1.length];
+  }
+}